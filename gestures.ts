@@ -0,0 +1,90 @@
+import { Stroke } from './myScriptService';
+import { Bounds, strokesBounds, strokeIntersectsSegment } from './strokeGeometry';
+
+const MIN_SCRATCH_POINTS = 8;
+const MIN_SCRATCH_REVERSALS = 4;  // Five or more passes back and forth
+const MIN_SCRATCH_DENSITY = 4;  // Path length relative to the extent along the scratch direction
+const REVERSAL_JITTER = 3;  // Movement (px) needed before a direction change counts
+const SCRATCH_HIT_RADIUS = 2;
+
+/**
+ * Count direction reversals along one axis, ignoring small jitter
+ */
+export function countReversals(values: number[], jitter: number = REVERSAL_JITTER): number {
+  let reversals = 0;
+  let direction = 0;
+  let anchor = values[0];
+
+  for (const value of values) {
+    const delta = value - anchor;
+    if (Math.abs(delta) < jitter) continue;
+
+    const sign = Math.sign(delta);
+    if (direction !== 0 && sign !== direction) {
+      reversals++;
+    }
+    direction = sign;
+    anchor = value;
+  }
+  return reversals;
+}
+
+function pathLength(stroke: Stroke): number {
+  let length = 0;
+  for (let i = 1; i < stroke.points.length; i++) {
+    const a = stroke.points[i - 1];
+    const b = stroke.points[i];
+    length += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return length;
+}
+
+/**
+ * Whether a stroke looks like a scratch-out: a dense zig-zag going back and
+ * forth many times over a small area, along its longer side.
+ * Ordinary writing moves forward, so loopy cursive stays below the density
+ * threshold, and up-down letters like "mmm" zig-zag across their short side.
+ */
+export function isScratchOut(stroke: Stroke): boolean {
+  if (stroke.points.length < MIN_SCRATCH_POINTS) return false;
+  const bounds = strokesBounds([stroke]);
+  if (!bounds) return false;
+
+  const length = pathLength(stroke);
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const [values, extent] = width >= height
+    ? [stroke.points.map(p => p.x), width]
+    : [stroke.points.map(p => p.y), height];
+
+  return extent > 0 &&
+    countReversals(values) >= MIN_SCRATCH_REVERSALS &&
+    length / extent >= MIN_SCRATCH_DENSITY;
+}
+
+function contains(outer: Bounds, inner: Bounds): boolean {
+  return inner.minX >= outer.minX && inner.maxX <= outer.maxX &&
+    inner.minY >= outer.minY && inner.maxY <= outer.maxY;
+}
+
+/**
+ * Strokes erased by a scratch-out gesture: those it crosses, plus small
+ * marks (like the dot of an i) that lie entirely within its area
+ */
+export function findScratchedStrokes<T extends Stroke>(gesture: Stroke, strokes: T[]): T[] {
+  const area = strokesBounds([gesture]);
+  if (!area) return [];
+
+  return strokes.filter(stroke => {
+    const bounds = strokesBounds([stroke]);
+    if (!bounds) return false;
+    if (contains(area, bounds)) return true;
+
+    for (let i = 1; i < gesture.points.length; i++) {
+      if (strokeIntersectsSegment(stroke, gesture.points[i - 1], gesture.points[i], SCRATCH_HIT_RADIUS)) {
+        return true;
+      }
+    }
+    return false;
+  });
+}
@@ -1,42 +1,189 @@
-import { ItemView, WorkspaceLeaf, Notice, ButtonComponent, MarkdownView, Editor } from 'obsidian';
-import { OcrService } from './ocrService';
-import { MyScriptService, Stroke, StrokePoint } from './myScriptService';
+import { ItemView, WorkspaceLeaf, Notice, ButtonComponent, DropdownComponent, MarkdownView, Editor, TFile, ViewStateResult, normalizePath, moment } from 'obsidian';
+import { RecognizeOptions, Stroke } from './myScriptService';
+import { StrokeHistory } from './strokeHistory';
+import {
+  drawStroke,
+  drawStrokes,
+  drawStrokePiece,
+  drawStrokeEnd,
+  pressureWidth,
+  applyStrokeStyle,
+  InkStroke,
+  StrokeStyle,
+  DEFAULT_STROKE_STYLE,
+} from './strokeRenderer';
+import {
+  strokeIntersectsSegment,
+  strokeInPolygon,
+  strokesBounds,
+  pointInBounds,
+  translateStroke,
+  simplifyStroke,
+  retimeStrokes,
+  Point,
+} from './strokeGeometry';
+import { Viewport } from './viewport';
+import { isScratchOut, findScratchedStrokes } from './gestures';
+import { drawPaperTemplate, groupStrokesByRuledLine, PaperTemplate, PAPER_TEMPLATES } from './paperTemplate';
+import { InsertFormat, INSERT_FORMATS, formatInsertText } from './insertFormat';
+import { InsertTarget, INSERT_TARGETS, fillTemplate, appendToText, dailyNotePath } from './noteTarget';
+import { InkPage, createPage, joinPageTexts, PAGE_SEPARATOR } from './inkPages';
+import { InkSession, isEmptySession } from './sessionStore';
+import { SessionHistoryModal } from './sessionHistoryModal';
+import { InkFileMetadata, INK_FILE_EXTENSION, parseInkFile, serializeInkFile } from './inkFile';
+import { replaceInkBlock, hashInkBlock, findInkBlock } from './inkBlock';
+import { strokesToSvg } from './svgExport';
+import { RecognitionResult, isLowConfidence, hasLowConfidence, highlightLowConfidence, wordsToText, textToWords } from './recognitionResult';
+import { ReviewModal, OutputAction } from './reviewModal';
+import { MathPreviewModal } from './mathPreviewModal';
+import { wrapLatex } from './latex';
+import { RecognitionEngine, recognizeInk } from './recognitionEngine';
+import { analyzeInkLines, inkLinesToMarkdown } from './inkStructure';
 import OOCRPlugin from './main';
 
 export const HANDWRITING_VIEW_TYPE = 'handwriting-view';
 
-interface CapturedStroke {
-  points: StrokePoint[];
+const ERASER_RADIUS = 8;
+const SELECTION_MARGIN = 10;
+const SELECTION_COLOR = '#3b82f6';
+const AUTO_EXTEND_MARGIN = 0.25;  // Extend the page when ink gets this close to the bottom (fraction of view height)
+const AUTO_EXTEND_AMOUNT = 0.5;  // ...by this much (fraction of view height)
+const PEN_ACTIVE_TIMEOUT = 1000;  // Touch is treated as a palm for this long after the pen was last seen (ms)
+const EINK_FRAME_INTERVAL = 50;  // Minimum time between repaints in e-ink mode (ms)
+let crispFilterCount = 0;  // Makes the SVG filter id of each view unique
+const SESSION_SAVE_DELAY = 1000;  // Autosave this long after the last change (ms)
+const IMAGE_PADDING = 20;  // White margin around the ink in images sent for recognition (px)
+const LOW_CONFIDENCE_COLOR = 'rgba(255, 152, 0, 0.3)';
+
+interface GestureState {
+  mid: Point;
+  distance: number;
 }
 
+type CanvasTool = 'pen' | 'eraser' | 'lasso';
+type RecognitionMode = 'text' | 'math' | 'diagram';
+
+const RECOGNITION_MODE_NAMES: Record<RecognitionMode, string> = {
+  text: 'Text',
+  math: 'Math',
+  diagram: 'Diagram',
+};
+
+const PEN_COLORS = [
+  { name: 'Black', value: '#000000' },
+  { name: 'Blue', value: '#1e4fd8' },
+  { name: 'Red', value: '#d32f2f' },
+  { name: 'Green', value: '#2e7d32' },
+];
+
+const PEN_WIDTHS = [
+  { name: 'Fine', value: 2.5 },
+  { name: 'Medium', value: 4.5 },
+  { name: 'Bold', value: 7 },
+];
+
+const HIGHLIGHTER_STYLE: StrokeStyle = { color: '#ffe14d', width: 18, highlighter: true };
+
 export class HandwritingView extends ItemView {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D | null;
+  private paperCanvas: HTMLCanvasElement;  // Paper template layer under the ink, never exported
+  private paperCtx: CanvasRenderingContext2D | null;
+  private overlayCanvas: HTMLCanvasElement;  // Predicted ink on top, replaced every frame
+  private overlayCtx: CanvasRenderingContext2D | null;
+  private crispFilter: string | null = null;  // Canvas filter for hard ink edges (e-ink mode)
   private isDrawing = false;
-  private ocrService: OcrService;
-  private myScriptService: MyScriptService;
   private plugin: OOCRPlugin;
   private resizeObserver: ResizeObserver;
+  private canvasWidth = 0;  // Logical (CSS pixel) size
+  private canvasHeight = 0;
+
+  // Pan/zoom: strokes live in world coordinates, the viewport maps them to the screen
+  private viewport = new Viewport();
+  private pageHeight = 0;  // World height of the writing surface, grows as you write
+  private touchPoints = new Map<number, Point>();  // Active touch pointers (screen coordinates)
+  private gestureActive = false;  // Two-finger pan/zoom in progress (until all fingers lift)
+  private lastGesture: GestureState | null = null;
+
+  // Palm rejection
+  private drawingPointerId: number | null = null;  // Pointer that owns the current stroke/tool action
+  private penDown = false;
+  private lastPenSeen = 0;  // Last pen event, including hover
 
   // Stroke capture for MyScript
-  private currentStroke: CapturedStroke | null = null;
-  private capturedStrokes: CapturedStroke[] = [];
+  private currentStroke: InkStroke | null = null;
+  private capturedStrokes: InkStroke[] = [];
   private sessionStartTime: number = 0;  // First stroke start time (for cumulative timestamps)
   private strokeStartTime: number = 0;  // Current stroke start time
 
+  // Rendering is batched to one repaint per animation frame
+  private frameRequest: number | null = null;
+  private needsRedraw = false;  // Full repaint pending (otherwise only new ink)
+  private lastFrameTime = 0;
+  private drawnPoints = 0;  // Points of the current stroke already on the canvas
+  private predictedPoints: Point[] = [];
+
+  // Pages: the current page is held in capturedStrokes/history/pageHeight
+  // and written back to the list when switching pages
+  private pages: InkPage[] = [createPage()];
+  private pageIndex = 0;
+  private prevPageButton: ButtonComponent | null = null;
+  private nextPageButton: ButtonComponent | null = null;
+  private pageInfoEl: HTMLElement | null = null;
+  private sessionSaveTimer: number | null = null;
+
+  // Ink file or note code block shown in this view (neither: the scratch
+  // canvas, saved as a session). fileMetadata belongs to either.
+  private file: TFile | null = null;
+  private block: { sourcePath: string; body: string } | null = null;
+  private scratchLoaded = false;  // The saved scratch session is loaded once, when the view opens
+  private fileMetadata: InkFileMetadata = {};
+
+  // Undo/redo (snapshots of capturedStrokes, one history per page)
+  private history: StrokeHistory<InkStroke> = this.pages[0].history;
+  private undoButton: ButtonComponent | null = null;
+  private redoButton: ButtonComponent | null = null;
+
+  // Tools
+  private tool: CanvasTool = 'pen';
+  private eraserButton: ButtonComponent | null = null;
+  private isErasing = false;
+  private eraseRecorded = false;  // History snapshot taken for the current erase gesture
+
+  // Lasso selection
+  private lassoButton: ButtonComponent | null = null;
+  private mathButton: ButtonComponent | null = null;
+  private diagramButton: ButtonComponent | null = null;
+  private recognitionMode: RecognitionMode = 'text';  // What the ink is recognized as
+  private deleteSelectionButton: ButtonComponent | null = null;
+  private selection = new Set<InkStroke>();
+  private lassoPath: Point[] | null = null;
+  private dragStart: Point | null = null;  // Set while dragging the selection
+  private dragOffset: Point = { x: 0, y: 0 };
+
+  // Pen palette (the style is saved on each stroke)
+  private penStyle: StrokeStyle = { ...DEFAULT_STROKE_STYLE };
+  private highlighterActive = false;
+  private paletteButtons: Array<{ el: HTMLElement; isActive: () => boolean }> = [];
+
+  // Auto-recognition and live preview
+  private previewEl: HTMLElement | null = null;
+  private strokeVersion = 0;  // Bumped on every change to the strokes or selection
+  private previewVersion = -1;  // strokeVersion the preview text was recognized from
+  private previewResult: RecognitionResult | null = null;
+  private confidenceResult: RecognitionResult | null = null;  // Last result of the current page, for shading uncertain words
+  private confidenceVersion = -1;  // strokeVersion confidenceResult was recognized from
+  private autoRecognizeTimer: number | null = null;
+  private autoRecognizeRequest = 0;  // Results from older requests are discarded
+  private autoRecognizeInFlight = false;
+  private autoRecognizePending = false;
+
   // Debug/logging
   private pressureValues: number[] = [];
   private strokeLogs: string[] = [];
 
-  constructor(
-    leaf: WorkspaceLeaf,
-    ocrService: OcrService,
-    myScriptService: MyScriptService,
-    plugin: OOCRPlugin
-  ) {
+  constructor(leaf: WorkspaceLeaf, plugin: OOCRPlugin) {
     super(leaf);
-    this.ocrService = ocrService;
-    this.myScriptService = myScriptService;
     this.plugin = plugin;
   }
 
@@ -45,7 +192,58 @@ export class HandwritingView extends ItemView {
   }
 
   getDisplayText() {
-    return 'Handwriting OCR';
+    if (this.block) {
+      return `Ink in ${this.block.sourcePath.replace(/^.*\//, '').replace(/\.md$/, '')}`;
+    }
+    return this.file ? this.file.basename : 'Handwriting OCR';
+  }
+
+  /**
+   * Whether this view edits an ink file or code block rather than the scratch canvas
+   */
+  isBound(): boolean {
+    return this.file !== null || this.block !== null;
+  }
+
+  getFile(): TFile | null {
+    return this.file;
+  }
+
+  getState(): Record<string, unknown> {
+    const state = super.getState();
+    if (this.file) {
+      state.file = this.file.path;
+    }
+    if (this.block) {
+      // The body is re-read from the note, so the layout stays small
+      state.block = { sourcePath: this.block.sourcePath, hash: hashInkBlock(this.block.body) };
+    }
+    return state;
+  }
+
+  /**
+   * Opening a .oocr file passes its path in the view state, editing an
+   * oocr-ink block its note and the hash of its body. Without either, the view is the
+   * scratch canvas and brings back the ink from last time.
+   */
+  async setState(state: any, result: ViewStateResult): Promise<void> {
+    if (typeof state?.file === 'string') {
+      const file = this.app.vault.getAbstractFileByPath(state.file);
+      if (file instanceof TFile) {
+        await this.openInkFile(file);
+      } else {
+        this.closeWithError(`Could not open ${state.file}: it no longer exists`);
+      }
+    } else if (typeof state?.block?.sourcePath === 'string' && typeof state.block.hash === 'string') {
+      await this.openInkBlock(state.block.sourcePath, state.block.hash);
+    } else if (!this.isBound() && !this.scratchLoaded) {
+      this.scratchLoaded = true;
+      const saved = this.plugin.sessionStore.getCurrent();
+      if (this.plugin.settings.persistCanvas && saved) {
+        this.loadSession(saved);
+      }
+    }
+    await super.setState(state, result);
   }
 
   getIcon() {
@@ -62,15 +260,98 @@ export class HandwritingView extends ItemView {
 
     new ButtonComponent(toolbar)
       .setButtonText('Clear')
-      .setIcon('eraser')
+      .setIcon('trash-2')
       .onClick(() => this.clearCanvas());
 
+    this.eraserButton = new ButtonComponent(toolbar)
+      .setIcon('eraser')
+      .setTooltip('Eraser')
+      .onClick(() => this.toggleEraser());
+
+    this.lassoButton = new ButtonComponent(toolbar)
+      .setIcon('lasso')
+      .setTooltip('Lasso select')
+      .onClick(() => this.setTool(this.tool === 'lasso' ? 'pen' : 'lasso'));
+
+    this.deleteSelectionButton = new ButtonComponent(toolbar)
+      .setIcon('x-square')
+      .setTooltip('Delete selection')
+      .setDisabled(true)
+      .onClick(() => this.deleteSelection());
+
+    new ButtonComponent(toolbar)
+      .setIcon('maximize-2')
+      .setTooltip('Reset view')
+      .onClick(() => this.resetView());
+
+    const paperDropdown = new DropdownComponent(toolbar)
+      .addOptions(PAPER_TEMPLATES)
+      .setValue(this.plugin.settings.paperTemplate)
+      .onChange(async value => {
+        this.plugin.settings.paperTemplate = value as PaperTemplate;
+        await this.plugin.saveSettings();
+        this.redrawCanvas();
+      });
+    paperDropdown.selectEl.setAttr('aria-label', 'Paper');
+
+    // Page navigation
+    this.prevPageButton = new ButtonComponent(toolbar)
+      .setIcon('chevron-left')
+      .setTooltip('Previous page')
+      .onClick(() => this.previousPage());
+
+    this.pageInfoEl = toolbar.createEl('span', { cls: 'handwriting-page-info' });
+
+    this.nextPageButton = new ButtonComponent(toolbar)
+      .setIcon('chevron-right')
+      .setTooltip('Next page')
+      .onClick(() => this.nextPage());
+
+    new ButtonComponent(toolbar)
+      .setIcon('file-plus')
+      .setTooltip('New page')
+      .onClick(() => this.addPage());
+
+    new ButtonComponent(toolbar)
+      .setIcon('save')
+      .setTooltip('Save as ink file')
+      .onClick(() => this.saveAsInkFile());
+
+    new ButtonComponent(toolbar)
+      .setIcon('history')
+      .setTooltip('Previous sessions')
+      .onClick(() => this.showSessionHistory());
+
+    this.updatePageInfo();
+
+    this.undoButton = new ButtonComponent(toolbar)
+      .setIcon('undo-2')
+      .setTooltip('Undo')
+      .setDisabled(true)
+      .onClick(() => this.undo());
+
+    this.redoButton = new ButtonComponent(toolbar)
+      .setIcon('redo-2')
+      .setTooltip('Redo')
+      .setDisabled(true)
+      .onClick(() => this.redo());
+
+    this.mathButton = new ButtonComponent(toolbar)
+      .setIcon('sigma')
+      .setTooltip(`Math mode (LaTeX, ${this.plugin.engines.names('math')} only)`)
+      .onClick(() => this.toggleRecognitionMode('math'));
+
+    this.diagramButton = new ButtonComponent(toolbar)
+      .setIcon('workflow')
+      .setTooltip(`Diagram mode (Mermaid flowchart, ${this.plugin.engines.names('diagrams')} only)`)
+      .onClick(() => this.toggleRecognitionMode('diagram'));
+
     // Show current engine in recognize button
-    const engineLabel = this.plugin.settings.ocrEngine === 'myscript' ? '(MyScript)' : '(Tesseract)';
+    const engine = this.plugin.getEngine();
     new ButtonComponent(toolbar)
-      .setButtonText(`Recognize ${engineLabel}`)
+      .setButtonText(`Recognize (${engine.name})`)
       .setIcon('scan-line')
-      .setTooltip(`Using ${this.plugin.settings.ocrEngine}`)
+      .setTooltip(`Using ${engine.label}`)
       .onClick(() => this.runOcr());
 
     new ButtonComponent(toolbar)
@@ -79,6 +360,24 @@ export class HandwritingView extends ItemView {
       .setCta()
       .onClick(() => this.runOcrAndInsert());
 
+    const formatDropdown = new DropdownComponent(toolbar)
+      .addOptions(INSERT_FORMATS)
+      .setValue(this.plugin.settings.insertFormat)
+      .onChange(async value => {
+        this.plugin.settings.insertFormat = value as InsertFormat;
+        await this.plugin.saveSettings();
+      });
+    formatDropdown.selectEl.setAttr('aria-label', 'Insert format');
+
+    const targetDropdown = new DropdownComponent(toolbar)
+      .addOptions(INSERT_TARGETS)
+      .setValue(this.plugin.settings.insertTarget)
+      .onChange(async value => {
+        this.plugin.settings.insertTarget = value as InsertTarget;
+        await this.plugin.saveSettings();
+      });
+    targetDropdown.selectEl.setAttr('aria-label', 'Insert into');
+
     // Debug Button
     new ButtonComponent(toolbar)
       .setButtonText('Save Img')
@@ -97,12 +396,32 @@ export class HandwritingView extends ItemView {
       (this as any).strokeInfoEl = strokeInfo;
     }
 
+    this.buildPenPalette(container);
+
+    // Live preview of auto-recognized text
+    this.previewEl = container.createDiv({ cls: 'handwriting-preview' });
+    this.showPreview(null);
+    this.previewEl.toggle(this.plugin.settings.autoRecognize);
+
     // Canvas Wrapper
     const canvasWrapper = container.createDiv({ cls: 'handwriting-canvas-wrapper' });
 
+    // Paper layer, with the ink canvas stacked on top
+    this.paperCanvas = canvasWrapper.createEl('canvas', { cls: 'handwriting-paper' });
+    this.paperCtx = this.paperCanvas.getContext('2d');
+
     // Canvas
+    // E-ink: let the browser skip compositor sync for lower pen latency
+    const eInk = this.plugin.settings.eInkMode;
     this.canvas = canvasWrapper.createEl('canvas', { cls: 'handwriting-canvas' });
-    this.ctx = this.canvas.getContext('2d');
+    this.ctx = this.canvas.getContext('2d', { desynchronized: eInk });
+    if (eInk) {
+      this.crispFilter = this.createCrispFilter(canvasWrapper);
+    }
+
+    // Predicted ink layer (pointer events pass through to the ink canvas)
+    this.overlayCanvas = canvasWrapper.createEl('canvas', { cls: 'handwriting-overlay' });
+    this.overlayCtx = this.overlayCanvas.getContext('2d');
 
     // Setup drawing events
     this.setupDrawingEvents();
@@ -113,9 +432,14 @@ export class HandwritingView extends ItemView {
   }
 
   async onClose() {
+    this.cancelAutoRecognize();
+    this.cancelFrame();
     if (this.resizeObserver) {
       this.resizeObserver.disconnect();
     }
+
+    // Save right away instead of waiting for the autosave delay
+    await this.flushSessionSave();
   }
 
   setupDrawingEvents() {
@@ -124,14 +448,50 @@ export class HandwritingView extends ItemView {
 
     const start = (e: PointerEvent) => {
       e.preventDefault();
+
+      if (e.pointerType === 'pen') {
+        this.penDown = true;
+        this.lastPenSeen = Date.now();
+      }
+
+      if (e.pointerType === 'touch') {
+        // Palm resting on the screen while the pen is in use
+        if (this.isPenActive()) return;
+
+        // A second finger (or any finger in pen-only mode) pans/zooms instead of drawing
+        this.touchPoints.set(e.pointerId, this.getScreenCoords(e));
+        if (this.touchPoints.size >= 2 || this.plugin.settings.penOnlyInput) {
+          this.beginGesture();
+          return;
+        }
+      }
+      if (this.gestureActive || this.isDrawing) return;
+
       this.isDrawing = true;
+      this.drawingPointerId = e.pointerId;
+
+      // Writing resumed: wait for the next pause before recognizing
+      this.cancelAutoRecognize();
       const { x, y } = this.getCoords(e);
       lastX = x;
       lastY = y;
 
+      // Eraser: toolbar toggle or the pen's eraser end
+      if (this.tool === 'eraser' || this.isEraserPointer(e)) {
+        this.isErasing = true;
+        this.eraseRecorded = false;
+        this.eraseAlong({ x, y }, { x, y });
+        return;
+      }
+
+      if (this.tool === 'lasso') {
+        this.startLasso({ x, y });
+        return;
+      }
+
       // Start new stroke capture
       // Set session start time if this is the first stroke
-      const now = Date.now();
+      const now = this.eventTime(e);
       if (this.capturedStrokes.length === 0) {
         this.sessionStartTime = now;
         console.log('[OOCR] Session started at', this.sessionStartTime);
@@ -139,77 +499,124 @@ export class HandwritingView extends ItemView {
       this.strokeStartTime = now;
       const t = now - this.sessionStartTime;
       console.log('[OOCR] Stroke', this.capturedStrokes.length, 'started at t=', t);
+      const style = this.getCurrentStyle();
       this.currentStroke = {
         points: [{
           x: x,
           y: y,
           t: t,
           p: e.pressure !== undefined && e.pressure > 0 ? e.pressure : 0.5
-        }]
+        }],
+        style: { ...style }
       };
+      this.drawnPoints = 1;
 
       // Draw a single dot in case it's just a tap
-      this.ctx?.beginPath();
-      this.ctx?.arc(x, y, (this.ctx.lineWidth / 2), 0, Math.PI * 2);
-      this.ctx?.fill();
-      this.ctx?.beginPath();
-      this.ctx?.moveTo(x, y);
+      if (this.ctx) {
+        applyStrokeStyle(this.ctx, style);
+        if (!style.highlighter) {
+          this.ctx.beginPath();
+          this.ctx.arc(x, y, pressureWidth(this.currentStroke.points[0].p, style.width) / 2, 0, Math.PI * 2);
+          this.ctx.fill();
+        }
+        this.ctx.beginPath();
+        this.ctx.moveTo(x, y);
+      }
     };
 
     const move = (e: PointerEvent) => {
-      if (!this.isDrawing || !this.ctx) return;
+      if (e.pointerType === 'pen') {
+        this.lastPenSeen = Date.now();
+      }
+      if (e.pointerType === 'touch' && this.touchPoints.has(e.pointerId)) {
+        this.touchPoints.set(e.pointerId, this.getScreenCoords(e));
+      }
+      if (this.gestureActive) {
+        e.preventDefault();
+        this.updateGesture();
+        return;
+      }
+
+      if (!this.isDrawing || !this.ctx || e.pointerId !== this.drawingPointerId) return;
       e.preventDefault();
 
-      // Handle pressure
-      const pressure = e.pressure !== undefined && e.pressure > 0 ? e.pressure : 0.5;
-      this.pressureValues.push(pressure);
-      const baseWidth = 4.5;
-      const dynamicWidth = baseWidth * (0.5 + pressure);
+      if (this.isErasing) {
+        const point = this.getCoords(e);
+        this.eraseAlong({ x: lastX, y: lastY }, point);
+        lastX = point.x;
+        lastY = point.y;
+        return;
+      }
 
-      const { x, y } = this.getCoords(e);
+      if (this.tool === 'lasso') {
+        this.continueLasso(this.getCoords(e));
+        return;
+      }
+
+      if (!this.currentStroke) return;
 
-      // Add point to current stroke
-      if (this.currentStroke) {
+      // The browser delivers one event per frame; the samples the pen
+      // reported in between are in the coalesced list
+      const coalesced = typeof e.getCoalescedEvents === 'function' ? e.getCoalescedEvents() : [];
+      for (const sample of coalesced.length > 0 ? coalesced : [e]) {
+        // Handle pressure
+        const pressure = sample.pressure !== undefined && sample.pressure > 0 ? sample.pressure : 0.5;
+        this.pressureValues.push(pressure);
+        const { x, y } = this.getCoords(sample);
         this.currentStroke.points.push({
           x: x,
           y: y,
-          t: Date.now() - this.sessionStartTime,
+          t: this.eventTime(sample) - this.sessionStartTime,
           p: pressure
         });
+        lastX = x;
+        lastY = y;
       }
 
-      // Draw segment
-      this.ctx.lineWidth = dynamicWidth;
-      this.ctx.beginPath();
-      this.ctx.moveTo(lastX, lastY);
-      this.ctx.lineTo(x, y);
-      this.ctx.stroke();
+      // Where the pen is likely heading, drawn ahead of the real ink to hide latency.
+      // Skipped on e-ink, where a wrong guess leaves a ghost until the panel refreshes.
+      const predicted = !this.plugin.settings.eInkMode && typeof e.getPredictedEvents === 'function'
+        ? e.getPredictedEvents()
+        : [];
+      this.predictedPoints = predicted.map(sample => this.getCoords(sample));
 
-      lastX = x;
-      lastY = y;
+      // Draw the new curve pieces with the next frame
+      this.requestFrame(false);
     };
 
     const end = (e: PointerEvent) => {
-      if (!this.isDrawing) return;
+      if (e.pointerType === 'pen') {
+        this.penDown = false;
+        this.lastPenSeen = Date.now();
+      }
+      if (e.pointerType === 'touch') {
+        this.touchPoints.delete(e.pointerId);
+      }
+      if (this.gestureActive) {
+        // Wait for all fingers to lift before drawing again
+        this.lastGesture = null;
+        if (this.touchPoints.size === 0) {
+          this.gestureActive = false;
+        }
+        return;
+      }
+
+      if (!this.isDrawing || e.pointerId !== this.drawingPointerId) return;
       e.preventDefault();
       this.isDrawing = false;
+      this.drawingPointerId = null;
 
-      // Save completed stroke
-      if (this.currentStroke && this.currentStroke.points.length > 0) {
-        this.capturedStrokes.push(this.currentStroke);
-        this.currentStroke = null;
-        this.updateStrokeInfo();
+      if (this.isErasing) {
+        this.isErasing = false;
+        return;
       }
 
-      if (this.pressureValues.length > 0) {
-        const unique = new Set(this.pressureValues).size;
-        const min = Math.min(...this.pressureValues).toFixed(3);
-        const max = Math.max(...this.pressureValues).toFixed(3);
-        const msg = `Stroke ${new Date().toISOString()}: ${this.pressureValues.length} pts, ${unique} unique levels. Range: ${min}-${max}`;
-        console.log(msg);
-        this.strokeLogs.push(msg);
-        this.pressureValues = [];
+      if (this.tool === 'lasso') {
+        this.finishLasso();
+        return;
       }
+
+      this.finishStroke();
     };
 
     // Pointer Events (Unified Mouse/Touch/Pen)
@@ -218,233 +625,1642 @@ export class HandwritingView extends ItemView {
     this.canvas.addEventListener('pointerup', end as any);
     this.canvas.addEventListener('pointerout', end as any);
     this.canvas.addEventListener('pointercancel', end as any);
-  }
 
-  getCoords(e: PointerEvent | MouseEvent | TouchEvent) {
-    const rect = this.canvas.getBoundingClientRect();
-    let clientX, clientY;
+    // Mouse wheel / trackpad: scroll, or zoom with Ctrl
+    this.canvas.addEventListener('wheel', (e: WheelEvent) => {
+      e.preventDefault();
+      if (e.ctrlKey) {
+        this.viewport.zoomAt(this.getScreenCoords(e), Math.exp(-e.deltaY * 0.01));
+      } else {
+        this.viewport.panBy(-e.deltaX, -e.deltaY);
+      }
+      this.clampView();
+      this.requestFrame(true);
+    }, { passive: false });
+  }
 
-    if (window.PointerEvent && e instanceof PointerEvent) {
-      clientX = e.clientX;
-      clientY = e.clientY;
-    } else if (window.TouchEvent && e instanceof TouchEvent) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else if (e instanceof MouseEvent) {
-      clientX = e.clientX;
-      clientY = e.clientY;
-    } else {
-      clientX = 0;
-      clientY = 0;
+  /**
+   * Second finger down: abandon whatever the first finger started and pan/zoom instead
+   */
+  beginGesture() {
+    if (this.isDrawing) {
+      this.isDrawing = false;
+      this.drawingPointerId = null;
+      this.isErasing = false;
+      this.currentStroke = null;
+      this.lassoPath = null;
+      this.dragStart = null;
+      this.dragOffset = { x: 0, y: 0 };
+      this.pressureValues = [];
+      this.clearPrediction();
+      this.redrawCanvas();
     }
-
-    return {
-      x: clientX - rect.left,
-      y: clientY - rect.top
-    };
+    this.gestureActive = true;
+    this.lastGesture = null;
   }
 
-  resizeCanvas() {
-    if (!this.canvas || !this.canvas.parentElement) return;
+  updateGesture() {
+    const points = Array.from(this.touchPoints.values());
+    if (points.length === 0) return;
+    // One finger only scrolls (pen-only mode); two fingers also zoom
+    if (points.length === 1 && !this.plugin.settings.penOnlyInput) return;
 
-    const rect = this.canvas.parentElement.getBoundingClientRect();
-    if (rect.width === 0 || rect.height === 0) return;
+    const [a, b = a] = points;
+    const current: GestureState = {
+      mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      distance: Math.hypot(a.x - b.x, a.y - b.y),
+    };
 
-    // Save content before resize clears it
-    const prevContent = this.canvas.toDataURL();
+    if (this.lastGesture) {
+      this.viewport.panBy(current.mid.x - this.lastGesture.mid.x, current.mid.y - this.lastGesture.mid.y);
+      if (this.lastGesture.distance > 0 && current.distance > 0) {
+        this.viewport.zoomAt(current.mid, current.distance / this.lastGesture.distance);
+      }
+      this.clampView();
+      this.requestFrame(true);
+    }
+    this.lastGesture = current;
+  }
 
-    // Handle High DPI displays
-    const dpr = window.devicePixelRatio || 1;
-    this.canvas.width = rect.width * dpr;
-    this.canvas.height = rect.height * dpr;
-    this.canvas.style.width = `${rect.width}px`;
-    this.canvas.style.height = `${rect.height}px`;
+  /**
+   * Pen lifted: save the stroke being written, or apply it as a scratch-out
+   */
+  finishStroke() {
+    // Flush ink still waiting for a frame, and drop the prediction
+    if (this.frameRequest !== null) {
+      this.cancelFrame();
+      this.renderFrame();
+    }
+    this.clearPrediction();
 
-    // Scale all drawing operations by dpr
-    this.ctx = this.canvas.getContext('2d');
-    this.ctx?.scale(dpr, dpr);
-    this.setupContext();
+    // No longer being written, so repaints from here on leave it out
+    const stroke = this.currentStroke;
+    this.currentStroke = null;
 
-    // Fill white background
-    this.ctx!.fillStyle = '#FFFFFF';
-    this.ctx!.fillRect(0, 0, rect.width, rect.height);
+    // A scratch-out over existing ink deletes it instead of adding a stroke
+    if (stroke && this.applyScratchOut(stroke)) {
+      this.pressureValues = [];
+      return;
+    }
 
-    // Restore content
-    const img = new Image();
-    img.onload = () => {
-      this.ctx?.drawImage(img, 0, 0, rect.width, rect.height);
-    };
-    img.src = prevContent;
+    // Save completed stroke
+    if (stroke && stroke.points.length > 0) {
+      if (this.ctx) {
+        drawStrokeEnd(this.ctx, stroke);
+      }
+      this.history.record(this.capturedStrokes);
+      this.capturedStrokes = [...this.capturedStrokes, stroke];
+      this.strokesChanged();
+      this.extendPage();
+
+      // Live highlighter segments overlap at the joints; repaint it as one path
+      if (this.capturedStrokes[this.capturedStrokes.length - 1].style?.highlighter) {
+        this.redrawCanvas();
+      }
+    }
+
+    if (this.pressureValues.length > 0) {
+      const unique = new Set(this.pressureValues).size;
+      const min = Math.min(...this.pressureValues).toFixed(3);
+      const max = Math.max(...this.pressureValues).toFixed(3);
+      const msg = `Stroke ${new Date().toISOString()}: ${this.pressureValues.length} pts, ${unique} unique levels. Range: ${min}-${max}`;
+      console.log(msg);
+      this.strokeLogs.push(msg);
+      this.pressureValues = [];
+    }
   }
 
-  setupContext() {
-    if (!this.ctx) return;
-    this.ctx.lineWidth = 4.5;
-    this.ctx.lineCap = 'round';
-    this.ctx.lineJoin = 'round';
-    this.ctx.strokeStyle = '#000000';
+  /**
+   * If the stroke is a scratch-out gesture over existing strokes, remove
+   * them (the gesture itself is never kept). Returns whether it was one.
+   */
+  applyScratchOut(gesture: InkStroke): boolean {
+    if (!this.plugin.settings.scratchOutGesture || gesture.style?.highlighter || !isScratchOut(gesture)) return false;
+
+    const scratched = new Set(findScratchedStrokes(gesture, this.capturedStrokes));
+    if (scratched.size === 0) return false;
+
+    this.history.record(this.capturedStrokes);
+    this.capturedStrokes = this.capturedStrokes.filter(stroke => !scratched.has(stroke));
+    this.selection = new Set(this.getSelectedStrokes());
+    this.redrawCanvas();
+    this.strokesChanged();
+    return true;
   }
 
-  clearCanvas() {
-    if (!this.ctx) return;
-    const dpr = window.devicePixelRatio || 1;
-    const rect = this.canvas.getBoundingClientRect();
+  /**
+   * Whether the pen is touching or was just seen (hovering), so touch input is a resting palm
+   */
+  isPenActive(): boolean {
+    return this.penDown || Date.now() - this.lastPenSeen < PEN_ACTIVE_TIMEOUT;
+  }
 
-    this.ctx.clearRect(0, 0, rect.width, rect.height);
-    this.ctx.fillStyle = '#FFFFFF';
-    this.ctx.fillRect(0, 0, rect.width, rect.height);
+  /**
+   * Grow the page when ink gets near the bottom, so there is always room to keep writing
+   */
+  extendPage() {
+    const bounds = strokesBounds(this.capturedStrokes);
+    if (!bounds) return;
+    if (bounds.maxY > this.pageHeight - this.canvasHeight * AUTO_EXTEND_MARGIN) {
+      this.pageHeight = bounds.maxY + this.canvasHeight * AUTO_EXTEND_AMOUNT;
+      this.redrawCanvas();
+    }
+  }
 
-    // Clear captured strokes
-    this.capturedStrokes = [];
-      this.sessionStartTime = 0; this.strokeStartTime = 0;
-    this.currentStroke = null;
-    this.updateStrokeInfo();
+  /**
+   * Write the current page's state back into the page list
+   */
+  storePage() {
+    const page = this.pages[this.pageIndex];
+    page.strokes = this.capturedStrokes;
+    page.history = this.history;
+    page.height = this.pageHeight;
   }
 
-  updateStrokeInfo() {
-    const infoEl = (this as any).strokeInfoEl;
-    if (infoEl) {
-      infoEl.textContent = `Strokes: ${this.capturedStrokes.length}`;
+  loadPage(index: number) {
+    const page = this.pages[index];
+    this.pageIndex = index;
+    this.capturedStrokes = page.strokes;
+    this.history = page.history;
+    this.pageHeight = Math.max(page.height, this.canvasHeight);
+    this.selection.clear();
+    this.lassoPath = null;
+    this.viewport.reset();
+
+    // Continue the page's timeline, so new strokes are timestamped after its existing ones
+    let lastTime = 0;
+    for (const stroke of page.strokes) {
+      for (const point of stroke.points) {
+        lastTime = Math.max(lastTime, point.t);
+      }
     }
+    this.sessionStartTime = Date.now() - lastTime;
+
+    this.extendPage();
+    this.redrawCanvas();
+    this.strokesLoaded();
+    this.updatePageInfo();
   }
 
-  getPaddedImage(): string {
-    const padding = 20;
-    const dpr = window.devicePixelRatio || 1;
-    const width = this.canvas.width;
-    const height = this.canvas.height;
+  showPage(index: number) {
+    if (this.isDrawing || index === this.pageIndex || index < 0 || index >= this.pages.length) return;
+    this.storePage();
+    this.loadPage(index);
+  }
 
-    // Create temp canvas
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = width + (padding * 2 * dpr);
-    tempCanvas.height = height + (padding * 2 * dpr);
-    const tCtx = tempCanvas.getContext('2d');
+  nextPage() {
+    this.showPage(this.pageIndex + 1);
+  }
 
-    if (!tCtx) return this.canvas.toDataURL('image/png');
+  previousPage() {
+    this.showPage(this.pageIndex - 1);
+  }
 
-    // Fill white
-    tCtx.fillStyle = '#FFFFFF';
-    tCtx.fillRect(0, 0, tempCanvas.width, tempCanvas.height);
+  /**
+   * Insert a blank page after the current one and switch to it
+   */
+  addPage() {
+    if (this.isDrawing) return;
+    this.storePage();
+    this.pages.splice(this.pageIndex + 1, 0, createPage());
+    this.loadPage(this.pageIndex + 1);
+    this.scheduleSessionSave();
+  }
 
-    // Draw original canvas centered
-    tCtx.drawImage(this.canvas, padding * dpr, padding * dpr);
+  /**
+   * Snapshot of all pages, for autosave and the session history
+   */
+  getSession(): InkSession {
+    this.storePage();
+    return {
+      savedAt: Date.now(),
+      pageIndex: this.pageIndex,
+      pages: this.pages.map(page => page.strokes),
+    };
+  }
 
-    // Binarize (Threshold)
-    const imageData = tCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
-    const data = imageData.data;
-    const threshold = 180;
+  /**
+   * Replace all pages with a saved session (undo history starts fresh).
+   * Nothing is saved until the ink is edited.
+   */
+  loadSession(session: InkSession) {
+    this.pages = session.pages.length > 0
+      ? session.pages.map(strokes => ({ ...createPage(), strokes }))
+      : [createPage()];
+    this.loadPage(Math.min(Math.max(0, session.pageIndex), this.pages.length - 1));
+  }
 
-    for (let i = 0; i < data.length; i += 4) {
-      const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
-      const val = brightness > threshold ? 255 : 0;
-      data[i] = val;
-      data[i + 1] = val;
-      data[i + 2] = val;
+  /**
+   * Save the canvas shortly after the last change (debounced)
+   */
+  scheduleSessionSave() {
+    if (!this.isBound() && !this.plugin.settings.persistCanvas) return;
+    if (this.sessionSaveTimer !== null) {
+      window.clearTimeout(this.sessionSaveTimer);
     }
-    tCtx.putImageData(imageData, 0, 0);
+    this.sessionSaveTimer = window.setTimeout(() => {
+      this.sessionSaveTimer = null;
+      this.saveSession();
+    }, SESSION_SAVE_DELAY);
+  }
 
-    return tempCanvas.toDataURL('image/png');
+  /**
+   * Save now if a save is pending (before closing or switching to other ink)
+   */
+  async flushSessionSave() {
+    if (this.sessionSaveTimer === null) return;
+    window.clearTimeout(this.sessionSaveTimer);
+    this.sessionSaveTimer = null;
+    await this.saveSession();
+  }
+
+  async saveSession() {
+    try {
+      if (this.block) {
+        await this.saveInkBlock();
+      } else if (this.file) {
+        await this.app.vault.modify(this.file, serializeInkFile(this.getSession().pages, this.fileMetadata));
+      } else if (this.plugin.settings.persistCanvas) {
+        await this.plugin.sessionStore.setCurrent(this.getSession());
+      }
+    } catch (error) {
+      console.warn('[OOCR] Could not save the canvas:', error);
+    }
   }
 
   /**
-   * Convert captured strokes to MyScript format
+   * Show an ink file for editing; changes are saved back to it
    */
-  getCapturedStrokes(): Stroke[] {
-    return this.capturedStrokes.map(stroke => ({
-      points: stroke.points
-    }));
+  async openInkFile(file: TFile) {
+    // The last edits belong to the ink shown so far
+    await this.flushSessionSave();
+    try {
+      const data = parseInkFile(await this.app.vault.read(file));
+      this.file = file;
+      this.fileMetadata = data.metadata;
+      this.loadSession({ savedAt: file.stat.mtime, pageIndex: 0, pages: data.pages });
+      (this.leaf as any).updateHeader?.();
+    } catch (error) {
+      console.error(error);
+      this.closeWithError(`Could not open ${file.name}: ${error.message}`);
+    }
   }
 
-  async runOcr() {
-    const originalCursor = this.canvas.style.cursor;
-    this.canvas.style.cursor = 'wait';
-    new Notice('Processing handwriting...');
+  /**
+   * Close a view whose ink could not be loaded. Left open, it would be an
+   * unbound canvas saving over the scratch session.
+   */
+  closeWithError(message: string) {
+    new Notice(message);
+    this.leaf.detach();
+  }
 
+  /**
+   * Edit an oocr-ink code block; changes are written back into the note.
+   * Closes the view if the block is gone (e.g. when restored after a restart).
+   */
+  async openInkBlock(sourcePath: string, hash: string) {
+    await this.flushSessionSave();
     try {
-      let text = '';
-
-      // Use selected engine
-      if (this.plugin.settings.ocrEngine === 'myscript' && this.plugin.settings.captureStrokes) {
-        // Try MyScript with stroke data first (the key advantage!)
-        const strokes = this.getCapturedStrokes();
-        if (strokes.length > 0 && this.myScriptService?.isConfigured()) {
-          try {
-            console.log(`Sending ${strokes.length} strokes to MyScript...`);
-            text = await this.myScriptService.recognizeStrokes(strokes);
-          } catch (strokeError) {
-            console.warn('Stroke recognition failed, falling back to bitmap:', strokeError);
-            if (this.plugin.settings.fallbackToBitmap) {
-              const dataUrl = this.getPaddedImage();
-              text = await this.myScriptService.recognizeBitmap(dataUrl);
-            }
-          }
-        } else if (this.myScriptService?.isConfigured()) {
-          // No strokes captured or MyScript not configured, use bitmap
-          const dataUrl = this.getPaddedImage();
-          text = await this.myScriptService.recognizeBitmap(dataUrl);
-        } else {
-          throw new Error('MyScript not configured. Please add API keys in settings.');
-        }
-      } else if (this.plugin.settings.ocrEngine === 'myscript' && this.myScriptService?.isConfigured()) {
-        // MyScript selected but stroke capture disabled - use bitmap
-        const dataUrl = this.getPaddedImage();
-        text = await this.myScriptService.recognizeBitmap(dataUrl);
-      } else {
-        // Default to Tesseract
-        const dataUrl = this.getPaddedImage();
-        text = await this.ocrService.recognize(dataUrl, {
-          handwriting: this.plugin.settings.tesseractHandwritingMode,
-          language: this.plugin.settings.tesseractLanguage
-        });
+      const file = this.app.vault.getAbstractFileByPath(sourcePath);
+      if (!(file instanceof TFile)) {
+        throw new Error(`${sourcePath} no longer exists`);
       }
-
-      if (text.trim()) {
-        await navigator.clipboard.writeText(text);
-        new Notice('Copied!');
-        return text;
-      } else {
-        new Notice('No text detected.');
-        return '';
+      const body = findInkBlock(await this.app.vault.read(file), hash);
+      if (body === null) {
+        throw new Error(`The ink block in ${file.basename} was changed or removed`);
       }
+      const data = parseInkFile(body);
+      this.block = { sourcePath, body };
+      this.fileMetadata = data.metadata;
+      this.loadSession({ savedAt: Date.now(), pageIndex: 0, pages: data.pages });
+      (this.leaf as any).updateHeader?.();
     } catch (error) {
       console.error(error);
-      new Notice('Recognition failed: ' + error.message);
-      return '';
-    } finally {
-      this.canvas.style.cursor = originalCursor;
+      this.closeWithError(`Could not open the ink block: ${error.message}`);
     }
   }
 
-  async runOcrAndInsert() {
-    const text = await this.runOcr();
+  async saveInkBlock() {
+    if (!this.block) return;
+    const block = this.block;
+    const file = this.app.vault.getAbstractFileByPath(block.sourcePath);
+    if (!(file instanceof TFile)) {
+      throw new Error(`${block.sourcePath} no longer exists`);
+    }
 
-    if (!text.trim()) return;
+    const body = serializeInkFile(this.getSession().pages, this.fileMetadata);
+    if (body === block.body) return;
+    let found = false;
+    await this.app.vault.process(file, data => {
+      const updated = replaceInkBlock(data, block.body, body);
+      found = updated !== null;
+      return updated ?? data;
+    });
+    if (!found) {
+      throw new Error(`The ink block in ${file.basename} was changed or removed`);
+    }
+    block.body = body;
+    // The view state holds the hash of the body, to find the block after a restart
+    this.app.workspace.requestSaveLayout();
+  }
 
-    try {
-      // Find valid markdown view to insert into
-      let markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+  /**
+   * Write the canvas to a new .oocr file, so it can be synced, linked and
+   * reopened for editing. A view already showing a file just saves it.
+   */
+  async saveAsInkFile() {
+    if (this.isBound()) {
+      if (this.sessionSaveTimer !== null) {
+        window.clearTimeout(this.sessionSaveTimer);
+        this.sessionSaveTimer = null;
+      }
+      await this.saveSession();
+      new Notice(`Saved ${this.getDisplayText()}`);
+      return;
+    }
 
-      if (!markdownView && this.plugin.lastActiveMarkdownView) {
-        markdownView = this.plugin.lastActiveMarkdownView;
+    const session = this.getSession();
+    if (isEmptySession(session)) {
+      new Notice('Nothing to save');
+      return;
+    }
+
+    try {
+      const folder = this.plugin.settings.inkFolder.trim()
+        ? normalizePath(this.plugin.settings.inkFolder)
+        : this.app.fileManager.getNewFileParent('').path;
+      if (!this.app.vault.getAbstractFileByPath(folder)) {
+        await this.app.vault.createFolder(folder);
       }
 
-      if (markdownView) {
-        const editor = markdownView.editor;
-        const cursor = editor.getCursor();
-        // Normalize to single line: replace newlines with spaces, trim
-        const singleLineText = text.replace(/\n+/g, ' ').trim();
-        const textToInsert = this.plugin.settings.addNewlineAfterInsert ? singleLineText + '\n' : singleLineText;
-        editor.replaceRange(textToInsert, cursor);
-        new Notice('Inserted text!');
-      } else {
-        // Fallback: copy to clipboard
-        await navigator.clipboard.writeText(text);
-        new Notice('No active document found. Copied to clipboard instead.');
+      const stamp = moment().format('YYYY-MM-DD HHmmss');
+      let path = normalizePath(`${folder}/Handwriting ${stamp}.${INK_FILE_EXTENSION}`);
+      for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) {
+        path = normalizePath(`${folder}/Handwriting ${stamp} ${n}.${INK_FILE_EXTENSION}`);
       }
+
+      // Keep the live preview result, if it is current
+      const metadata: InkFileMetadata = this.previewVersion === this.strokeVersion && this.previewResult !== null
+        ? this.recognitionMetadata(this.previewResult.text)
+        : {};
+      const file = await this.app.vault.create(path, serializeInkFile(session.pages, metadata));
+      new Notice(`Saved ${file.path}`);
     } catch (error) {
       console.error(error);
-      new Notice('Insert failed: ' + error.message);
+      new Notice('Could not save ink file: ' + error.message);
+    }
+  }
+
+  recognitionMetadata(text: string): InkFileMetadata {
+    const engine = this.plugin.getEngine();
+    return {
+      engine: engine.id,
+      language: engine.language(),
+      text,
+      recognizedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Put the current ink into the session history and start with a blank canvas
+   */
+  async newSession() {
+    if (this.isDrawing) return;
+    if (this.isBound()) {
+      new Notice('Sessions belong to the Handwriting Canvas; this view shows saved ink');
+      return;
+    }
+    const session = this.getSession();
+    if (!isEmptySession(session)) {
+      await this.plugin.sessionStore.archive(session, this.plugin.settings.sessionHistorySize);
+    }
+    this.loadSession({ savedAt: Date.now(), pageIndex: 0, pages: [[]] });
+    this.scheduleSessionSave();
+    new Notice('Started a new handwriting session');
+  }
+
+  /**
+   * Switch to a session from the history; the current ink takes its place there
+   */
+  async restoreSession(session: InkSession) {
+    if (this.isDrawing) return;
+    if (this.isBound()) {
+      new Notice('Sessions belong to the Handwriting Canvas; this view shows saved ink');
+      return;
+    }
+    const current = this.getSession();
+    await this.plugin.sessionStore.removeFromHistory(session);
+    if (!isEmptySession(current)) {
+      await this.plugin.sessionStore.archive(current, this.plugin.settings.sessionHistorySize);
+    }
+    this.loadSession(session);
+    this.scheduleSessionSave();
+    new Notice('Restored handwriting session');
+  }
+
+  showSessionHistory() {
+    new SessionHistoryModal(
+      this.app,
+      this.plugin.sessionStore.getHistory(),
+      session => this.restoreSession(session)
+    ).open();
+  }
+
+  updatePageInfo() {
+    this.pageInfoEl?.setText(`${this.pageIndex + 1} / ${this.pages.length}`);
+    this.prevPageButton?.setDisabled(this.pageIndex === 0);
+    this.nextPageButton?.setDisabled(this.pageIndex === this.pages.length - 1);
+  }
+
+  /**
+   * World width of the writing surface: the view width, or wider if ink extends past it
+   */
+  getPageWidth(): number {
+    const bounds = strokesBounds(this.capturedStrokes);
+    return Math.max(this.canvasWidth, bounds ? bounds.maxX : 0);
+  }
+
+  clampView() {
+    this.viewport.clamp(this.getPageWidth(), this.pageHeight, this.canvasWidth, this.canvasHeight);
+  }
+
+  resetView() {
+    this.viewport.reset();
+    this.redrawCanvas();
+  }
+
+  /**
+   * Colour swatches, width presets and highlighter, below the toolbar
+   */
+  buildPenPalette(container: Element) {
+    const palette = container.createDiv({ cls: 'handwriting-pen-palette' });
+    this.paletteButtons = [];
+
+    for (const color of PEN_COLORS) {
+      const swatch = palette.createEl('button', {
+        cls: 'pen-swatch',
+        attr: { 'aria-label': color.name },
+      });
+      swatch.style.backgroundColor = color.value;
+      swatch.addEventListener('click', () => this.setPenStyle({ color: color.value }));
+      this.paletteButtons.push({
+        el: swatch,
+        isActive: () => !this.highlighterActive && this.penStyle.color === color.value,
+      });
+    }
+
+    for (const width of PEN_WIDTHS) {
+      const button = new ButtonComponent(palette)
+        .setButtonText(width.name)
+        .onClick(() => this.setPenStyle({ width: width.value }));
+      this.paletteButtons.push({
+        el: button.buttonEl,
+        isActive: () => !this.highlighterActive && this.penStyle.width === width.value,
+      });
+    }
+
+    const highlighter = new ButtonComponent(palette)
+      .setIcon('highlighter')
+      .setTooltip('Highlighter (not recognized)')
+      .onClick(() => {
+        this.highlighterActive = !this.highlighterActive;
+        this.setTool('pen');
+        this.updatePalette();
+      });
+    this.paletteButtons.push({ el: highlighter.buttonEl, isActive: () => this.highlighterActive });
+
+    this.updatePalette();
+  }
+
+  setPenStyle(style: Partial<StrokeStyle>) {
+    this.penStyle = { ...this.penStyle, ...style };
+    this.highlighterActive = false;
+    this.setTool('pen');
+    this.updatePalette();
+  }
+
+  getCurrentStyle(): StrokeStyle {
+    return this.highlighterActive ? HIGHLIGHTER_STYLE : this.penStyle;
+  }
+
+  updatePalette() {
+    for (const { el, isActive } of this.paletteButtons) {
+      el.toggleClass('is-active', isActive());
+    }
+  }
+
+  /**
+   * Pen eraser end: reported as button 5 on press and buttons bit 32 while held
+   */
+  isEraserPointer(e: PointerEvent): boolean {
+    return e.button === 5 || (e.buttons & 32) !== 0;
+  }
+
+  setTool(tool: CanvasTool) {
+    this.tool = tool;
+    this.eraserButton?.buttonEl.toggleClass('is-active', tool === 'eraser');
+    this.lassoButton?.buttonEl.toggleClass('is-active', tool === 'lasso');
+    if (tool !== 'lasso' && this.selection.size > 0) {
+      this.clearSelection();
+    }
+  }
+
+  /**
+   * Lasso press: drag the selection if pressed inside it, otherwise start a new lasso
+   */
+  startLasso(point: Point) {
+    const bounds = strokesBounds(this.getSelectedStrokes());
+    if (bounds && pointInBounds(point, bounds, SELECTION_MARGIN)) {
+      this.dragStart = point;
+      this.dragOffset = { x: 0, y: 0 };
+      return;
+    }
+
+    this.selection.clear();
+    this.lassoPath = [point];
+    this.redrawCanvas();
+    this.strokesChanged();
+  }
+
+  continueLasso(point: Point) {
+    if (this.dragStart) {
+      // The page starts at 0, 0; ink moved past it would be cut off the canvas and the recognized image
+      const bounds = strokesBounds(this.getSelectedStrokes());
+      this.dragOffset = {
+        x: Math.max(point.x - this.dragStart.x, bounds ? -bounds.minX : 0),
+        y: Math.max(point.y - this.dragStart.y, bounds ? -bounds.minY : 0),
+      };
+      this.requestFrame(true);
+      return;
+    }
+
+    if (!this.lassoPath || !this.ctx) return;
+    const last = this.lassoPath[this.lassoPath.length - 1];
+    this.lassoPath.push(point);
+
+    // Draw the lasso outline; it's discarded by the next repaint
+    this.ctx.save();
+    this.ctx.strokeStyle = SELECTION_COLOR;
+    this.ctx.lineWidth = 1 / this.viewport.scale;
+    this.ctx.setLineDash([4, 4]);
+    this.ctx.beginPath();
+    this.ctx.moveTo(last.x, last.y);
+    this.ctx.lineTo(point.x, point.y);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
+  finishLasso() {
+    if (this.dragStart) {
+      const { x: dx, y: dy } = this.dragOffset;
+      this.dragStart = null;
+      this.dragOffset = { x: 0, y: 0 };
+
+      if (dx !== 0 || dy !== 0) {
+        this.history.record(this.capturedStrokes);
+        const moved = new Set<InkStroke>();
+        this.capturedStrokes = this.capturedStrokes.map(stroke => {
+          if (!this.selection.has(stroke)) return stroke;
+          const copy = translateStroke(stroke, dx, dy);
+          moved.add(copy);
+          return copy;
+        });
+        this.selection = moved;
+        this.strokesChanged();
+        this.extendPage();
+      }
+      this.redrawCanvas();
+      return;
+    }
+
+    if (!this.lassoPath) return;
+    const polygon = this.lassoPath;
+    this.lassoPath = null;
+    this.selection = new Set(this.capturedStrokes.filter(stroke => strokeInPolygon(stroke, polygon)));
+    this.redrawCanvas();
+    this.strokesChanged();
+  }
+
+  /**
+   * Selected strokes, in capture order
+   */
+  getSelectedStrokes(): InkStroke[] {
+    return this.capturedStrokes.filter(stroke => this.selection.has(stroke));
+  }
+
+  /**
+   * Strokes that recognition works on: the selection if there is one, otherwise everything
+   */
+  getActiveStrokes(): InkStroke[] {
+    return this.selection.size > 0 ? this.getSelectedStrokes() : this.capturedStrokes;
+  }
+
+  /**
+   * Active strokes that count as writing (highlighter marks are left out of OCR)
+   */
+  getRecognitionStrokes(): InkStroke[] {
+    return this.getActiveStrokes().filter(stroke => !stroke.style?.highlighter);
+  }
+
+  /**
+   * Whether Recognize/Insert cover every page (a selection always limits them to itself)
+   */
+  recognizesAllPages(): boolean {
+    return this.plugin.settings.recognizeAllPages && this.selection.size === 0 && this.pages.length > 1;
+  }
+
+  /**
+   * Whether recognition covers less than the whole canvas (a selection, or one of several pages)
+   */
+  recognizesSubset(): boolean {
+    return this.selection.size > 0 || (this.pages.length > 1 && !this.recognizesAllPages());
+  }
+
+  /**
+   * Strokes to recognize, one list per page in page order
+   */
+  getRecognitionPages(): InkStroke[][] {
+    return this.getInkPages().map(strokes => strokes.filter(stroke => !stroke.style?.highlighter));
+  }
+
+  /**
+   * All ink of the pages Recognize/Insert cover, highlighter marks included
+   * (for embedding the original). Lines up with getRecognitionPages.
+   */
+  getInkPages(): InkStroke[][] {
+    if (!this.recognizesAllPages()) {
+      return [this.getActiveStrokes()];
+    }
+    this.storePage();
+    return this.pages
+      .map(page => page.strokes)
+      .filter(strokes => strokes.some(stroke => !stroke.style?.highlighter));
+  }
+
+  clearSelection() {
+    this.selection.clear();
+    this.redrawCanvas();
+    this.strokesChanged();
+  }
+
+  deleteSelection() {
+    if (this.selection.size === 0) return;
+    this.history.record(this.capturedStrokes);
+    this.capturedStrokes = this.capturedStrokes.filter(stroke => !this.selection.has(stroke));
+    this.selection.clear();
+    this.redrawCanvas();
+    this.strokesChanged();
+  }
+
+  toggleEraser() {
+    this.setTool(this.tool === 'eraser' ? 'pen' : 'eraser');
+  }
+
+  /**
+   * Remove every stroke the eraser path from a to b passes over
+   */
+  eraseAlong(a: Point, b: Point) {
+    const remaining = this.capturedStrokes.filter(
+      stroke => !strokeIntersectsSegment(stroke, a, b, ERASER_RADIUS / this.viewport.scale)
+    );
+    if (remaining.length === this.capturedStrokes.length) return;
+
+    // One undo step per erase gesture
+    if (!this.eraseRecorded) {
+      this.history.record(this.capturedStrokes);
+      this.eraseRecorded = true;
+    }
+    this.capturedStrokes = remaining;
+    this.selection = new Set(this.getSelectedStrokes());
+    this.redrawCanvas();
+    this.strokesChanged();
+  }
+
+  /**
+   * Pointer position in world (stroke) coordinates
+   */
+  getCoords(e: PointerEvent | MouseEvent | TouchEvent): Point {
+    return this.viewport.screenToWorld(this.getScreenCoords(e));
+  }
+
+  /**
+   * Wall-clock time of an event in whole ms. Coalesced samples carry their own
+   * timestamps, which are more accurate than the time they are handled.
+   * Only their age is taken from the monotonic clock: it falls behind
+   * Date.now() while the device sleeps, and page timelines use Date.now().
+   */
+  eventTime(e: Event): number {
+    const age = e.timeStamp > 0 ? Math.max(0, performance.now() - e.timeStamp) : 0;
+    return Math.round(Date.now() - age);
+  }
+
+  /**
+   * Pointer position in logical pixels relative to the canvas
+   */
+  getScreenCoords(e: PointerEvent | MouseEvent | TouchEvent): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    let clientX, clientY;
+
+    if (window.PointerEvent && e instanceof PointerEvent) {
+      clientX = e.clientX;
+      clientY = e.clientY;
+    } else if (window.TouchEvent && e instanceof TouchEvent) {
+      clientX = e.touches[0].clientX;
+      clientY = e.touches[0].clientY;
+    } else if (e instanceof MouseEvent) {
+      clientX = e.clientX;
+      clientY = e.clientY;
+    } else {
+      clientX = 0;
+      clientY = 0;
+    }
+
+    return {
+      x: clientX - rect.left,
+      y: clientY - rect.top
+    };
+  }
+
+  resizeCanvas() {
+    if (!this.canvas || !this.canvas.parentElement) return;
+
+    const rect = this.canvas.parentElement.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    // Strokes are stored in logical (CSS pixel) coordinates, so after a resize
+    // the canvas is re-rendered from them instead of stretching the old bitmap
+    this.canvasWidth = rect.width;
+    this.canvasHeight = rect.height;
+    this.pageHeight = Math.max(this.pageHeight, rect.height);
+
+    // Handle High DPI displays
+    const dpr = window.devicePixelRatio || 1;
+    this.canvas.width = Math.round(rect.width * dpr);
+    this.canvas.height = Math.round(rect.height * dpr);
+    this.canvas.style.width = `${rect.width}px`;
+    this.canvas.style.height = `${rect.height}px`;
+
+    this.ctx = this.canvas.getContext('2d');
+
+    this.paperCanvas.width = this.canvas.width;
+    this.paperCanvas.height = this.canvas.height;
+    this.paperCanvas.style.width = `${rect.width}px`;
+    this.paperCanvas.style.height = `${rect.height}px`;
+    this.paperCtx = this.paperCanvas.getContext('2d');
+
+    this.overlayCanvas.width = this.canvas.width;
+    this.overlayCanvas.height = this.canvas.height;
+    this.overlayCanvas.style.width = `${rect.width}px`;
+    this.overlayCanvas.style.height = `${rect.height}px`;
+
+    this.clampView();
+    this.redrawCanvas();
+  }
+
+  /**
+   * SVG filter that turns the grey anti-aliased edge pixels of ink fully
+   * on or off, since e-ink panels render grey edges as blur. Returns the
+   * value for the context's filter property.
+   */
+  createCrispFilter(container: HTMLElement): string {
+    const id = `oocr-crisp-ink-${++crispFilterCount}`;
+    const svg = container.createSvg('svg', { cls: 'handwriting-filters' });
+    const filter = svg.createSvg('filter', { attr: { id } });
+    filter.createSvg('feComponentTransfer')
+      .createSvg('feFuncA', { attr: { type: 'discrete', tableValues: '0 1' } });
+    return `url(#${id})`;
+  }
+
+  setupContext() {
+    if (!this.ctx) return;
+    // Part of the context state, so it is set again after a resize resets it
+    this.ctx.filter = this.crispFilter ?? 'none';
+    this.ctx.lineWidth = 4.5;
+    this.ctx.lineCap = 'round';
+    this.ctx.lineJoin = 'round';
+    this.ctx.strokeStyle = '#000000';
+    this.ctx.fillStyle = '#000000';
+  }
+
+  clearCanvas() {
+    if (!this.ctx) return;
+
+    // Clearing is undoable, so keep the strokes in history
+    if (this.capturedStrokes.length > 0) {
+      this.history.record(this.capturedStrokes);
+    }
+
+    // Clear captured strokes
+    this.capturedStrokes = [];
+    this.selection.clear();
+    this.strokeStartTime = 0;
+    this.currentStroke = null;
+    this.viewport.reset();
+    this.pageHeight = this.canvasHeight;
+    this.redrawCanvas();
+    this.strokesChanged();
+  }
+
+  undo() {
+    if (this.isDrawing) return;
+    const previous = this.history.undo(this.capturedStrokes);
+    if (!previous) return;
+    this.capturedStrokes = previous;
+    this.selection.clear();
+    this.extendPage();
+    this.redrawCanvas();
+    this.strokesChanged();
+  }
+
+  redo() {
+    if (this.isDrawing) return;
+    const next = this.history.redo(this.capturedStrokes);
+    if (!next) return;
+    this.capturedStrokes = next;
+    this.selection.clear();
+    this.extendPage();
+    this.redrawCanvas();
+    this.strokesChanged();
+  }
+
+  /**
+   * Repaint the canvas from the stroke vectors, so what is on screen
+   * always matches the strokes sent for recognition
+   */
+  redrawCanvas() {
+    if (!this.ctx) return;
+
+    this.drawPaper();
+
+    // The ink layer is transparent over the paper
+    const dpr = window.devicePixelRatio || 1;
+    this.ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    this.ctx.clearRect(0, 0, this.canvasWidth, this.canvasHeight);
+
+    // Ink in world coordinates; the transform is left in place for live drawing
+    const { scale, offsetX, offsetY } = this.viewport;
+    this.ctx.setTransform(dpr * scale, 0, 0, dpr * scale, -offsetX * scale * dpr, -offsetY * scale * dpr);
+    this.setupContext();
+    this.drawLowConfidence(this.ctx);
+    drawStrokes(this.ctx, this.capturedStrokes.filter(stroke => !this.selection.has(stroke)));
+    if (this.selection.size > 0) {
+      this.drawSelection(this.ctx);
+    }
+
+    // A stroke still being written (e.g. during a resize)
+    if (this.currentStroke) {
+      drawStroke(this.ctx, this.currentStroke);
+      this.drawnPoints = this.currentStroke.points.length;
+    }
+  }
+
+  /**
+   * Queue a repaint for the next animation frame. Pointer events can arrive
+   * faster than the display refreshes; batching keeps each frame to one
+   * repaint. A full redraw is only done when asked for (pan, zoom, drag),
+   * otherwise just the ink added since the last frame is drawn.
+   */
+  requestFrame(fullRedraw: boolean) {
+    this.needsRedraw = this.needsRedraw || fullRedraw;
+    if (this.frameRequest !== null) return;
+    this.frameRequest = window.requestAnimationFrame(() => this.renderFrame());
+  }
+
+  renderFrame() {
+    this.frameRequest = null;
+
+    // E-ink panels refresh slowly: fewer, larger updates look better and cost less
+    const now = performance.now();
+    if (this.plugin.settings.eInkMode && now - this.lastFrameTime < EINK_FRAME_INTERVAL) {
+      this.frameRequest = window.requestAnimationFrame(() => this.renderFrame());
+      return;
+    }
+    this.lastFrameTime = now;
+
+    if (this.needsRedraw) {
+      this.needsRedraw = false;
+      this.redrawCanvas();
+    } else {
+      this.drawNewInk();
+    }
+    this.drawPrediction();
+  }
+
+  cancelFrame() {
+    if (this.frameRequest !== null) {
+      window.cancelAnimationFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+  }
+
+  /**
+   * Draw the curve pieces completed by points added since the last frame
+   */
+  drawNewInk() {
+    const stroke = this.currentStroke;
+    if (!this.ctx || !stroke) return;
+    applyStrokeStyle(this.ctx, stroke.style ?? DEFAULT_STROKE_STYLE);
+    for (let i = Math.max(1, this.drawnPoints); i < stroke.points.length; i++) {
+      drawStrokePiece(this.ctx, stroke, i);
+    }
+    this.drawnPoints = stroke.points.length;
+  }
+
+  /**
+   * Draw the predicted continuation of the current stroke on the overlay
+   */
+  drawPrediction() {
+    const ctx = this.overlayCtx;
+    const stroke = this.currentStroke;
+    this.clearPrediction();
+    if (!ctx || !stroke || this.predictedPoints.length === 0) return;
+
+    const style = stroke.style ?? DEFAULT_STROKE_STYLE;
+    const last = stroke.points[stroke.points.length - 1];
+    const dpr = window.devicePixelRatio || 1;
+    const { scale, offsetX, offsetY } = this.viewport;
+    ctx.setTransform(dpr * scale, 0, 0, dpr * scale, -offsetX * scale * dpr, -offsetY * scale * dpr);
+    applyStrokeStyle(ctx, style);
+    ctx.lineWidth = style.highlighter ? style.width : pressureWidth(last.p, style.width);
+    ctx.beginPath();
+    ctx.moveTo(last.x, last.y);
+    for (const point of this.predictedPoints) {
+      ctx.lineTo(point.x, point.y);
+    }
+    ctx.stroke();
+  }
+
+  clearPrediction() {
+    if (!this.overlayCtx) return;
+    this.overlayCtx.setTransform(1, 0, 0, 1, 0, 0);
+    this.overlayCtx.clearRect(0, 0, this.overlayCanvas.width, this.overlayCanvas.height);
+  }
+
+  /**
+   * White page, template pattern and scroll indicator on the paper layer
+   */
+  drawPaper() {
+    const ctx = this.paperCtx;
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+
+    const { scale, offsetX, offsetY } = this.viewport;
+    ctx.setTransform(dpr * scale, 0, 0, dpr * scale, -offsetX * scale * dpr, -offsetY * scale * dpr);
+    const topLeft = this.viewport.screenToWorld({ x: 0, y: 0 });
+    const bottomRight = this.viewport.screenToWorld({ x: this.canvasWidth, y: this.canvasHeight });
+    drawPaperTemplate(
+      ctx,
+      this.plugin.settings.paperTemplate,
+      this.plugin.settings.paperSpacing,
+      { minX: topLeft.x, minY: topLeft.y, maxX: bottomRight.x, maxY: bottomRight.y },
+      scale
+    );
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    this.drawScrollIndicator(ctx);
+  }
+
+  /**
+   * Thin scroll bar on the right edge when the page is taller than the view
+   */
+  drawScrollIndicator(ctx: CanvasRenderingContext2D) {
+    const visible = this.canvasHeight / this.viewport.scale;
+    if (this.pageHeight <= visible) return;
+
+    const barHeight = Math.max(20, this.canvasHeight * visible / this.pageHeight);
+    const barTop = (this.canvasHeight - barHeight) * this.viewport.offsetY / (this.pageHeight - visible);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
+    ctx.fillRect(this.canvasWidth - 4, barTop, 3, barHeight);
+  }
+
+  /**
+   * Selected strokes plus the selection box, shifted by any in-progress drag
+   */
+  drawSelection(ctx: CanvasRenderingContext2D) {
+    const selected = this.getSelectedStrokes();
+    ctx.save();
+    ctx.translate(this.dragOffset.x, this.dragOffset.y);
+    drawStrokes(ctx, selected);
+
+    const bounds = strokesBounds(selected);
+    if (bounds) {
+      ctx.strokeStyle = SELECTION_COLOR;
+      ctx.lineWidth = 1 / this.viewport.scale;
+      ctx.setLineDash([4, 4]);
+      ctx.strokeRect(
+        bounds.minX - SELECTION_MARGIN,
+        bounds.minY - SELECTION_MARGIN,
+        bounds.maxX - bounds.minX + SELECTION_MARGIN * 2,
+        bounds.maxY - bounds.minY + SELECTION_MARGIN * 2
+      );
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Shade the words of the last recognition the engine was unsure of,
+   * while the ink is unchanged since
+   */
+  drawLowConfidence(ctx: CanvasRenderingContext2D) {
+    const threshold = this.plugin.settings.confidenceThreshold;
+    if (!this.confidenceResult || this.confidenceVersion !== this.strokeVersion || threshold <= 0) return;
+
+    ctx.save();
+    ctx.fillStyle = LOW_CONFIDENCE_COLOR;
+    for (const word of this.confidenceResult.words) {
+      if (!word.bounds || !isLowConfidence(word, threshold)) continue;
+      // Word boxes are in recognition image pixels: world coordinates plus the padding
+      const { minX, minY, maxX, maxY } = word.bounds;
+      ctx.fillRect(minX - IMAGE_PADDING, minY - IMAGE_PADDING, maxX - minX, maxY - minY);
+    }
+    ctx.restore();
+  }
+
+  showConfidence(result: RecognitionResult, version: number) {
+    this.confidenceResult = result;
+    this.confidenceVersion = version;
+    if (version === this.strokeVersion) {
+      this.redrawCanvas();
+    }
+  }
+
+  /**
+   * Called after every change to the strokes or the selection
+   */
+  strokesChanged() {
+    this.strokesLoaded();
+    this.scheduleSessionSave();
+  }
+
+  /**
+   * Like strokesChanged, for ink that was loaded rather than edited: there is nothing new to save
+   */
+  strokesLoaded() {
+    this.strokeVersion++;
+    this.updateStrokeInfo();
+    this.scheduleAutoRecognize();
+  }
+
+  updateStrokeInfo() {
+    const infoEl = (this as any).strokeInfoEl;
+    if (infoEl) {
+      infoEl.textContent = `Strokes: ${this.capturedStrokes.length}`;
+    }
+    this.undoButton?.setDisabled(!this.history.canUndo());
+    this.redoButton?.setDisabled(!this.history.canRedo());
+    this.updateSelectionInfo();
+  }
+
+  updateSelectionInfo() {
+    this.deleteSelectionButton?.setDisabled(this.selection.size === 0);
+  }
+
+  getPaddedImage(strokes: InkStroke[] = this.getRecognitionStrokes()): string {
+    const padding = IMAGE_PADDING;
+
+    // Rendered in world coordinates at 100% zoom, so image pixels line up
+    // with stroke coordinates (offset by the padding) whatever the screen
+    // density or current pan/zoom. Covers the whole written area, not just
+    // the visible part.
+    const bounds = strokesBounds(strokes);
+    const width = Math.ceil(Math.max(this.canvasWidth, bounds ? bounds.maxX : 0));
+    const height = Math.ceil(Math.max(this.canvasHeight, bounds ? bounds.maxY : 0));
+
+    // Create temp canvas
+    const tempCanvas = document.createElement('canvas');
+    tempCanvas.width = width + padding * 2;
+    tempCanvas.height = height + padding * 2;
+    const tCtx = tempCanvas.getContext('2d');
+
+    if (!tCtx) return this.canvas.toDataURL('image/png');
+
+    // Fill white
+    tCtx.fillStyle = '#FFFFFF';
+    tCtx.fillRect(0, 0, tempCanvas.width, tempCanvas.height);
+
+    // Render the strokes centered (from vectors, so only the active strokes
+    // are included and selection/lasso overlays never are). Drawn in solid
+    // black, so light ink colours survive binarization.
+    tCtx.translate(padding, padding);
+    drawStrokes(tCtx, strokes, { monochrome: true });
+    tCtx.setTransform(1, 0, 0, 1, 0, 0);
+
+    // Binarize (Threshold)
+    const imageData = tCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
+    const data = imageData.data;
+    const threshold = 180;
+
+    for (let i = 0; i < data.length; i += 4) {
+      const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
+      const val = brightness > threshold ? 255 : 0;
+      data[i] = val;
+      data[i + 1] = val;
+      data[i + 2] = val;
+    }
+    tCtx.putImageData(imageData, 0, 0);
+
+    return tempCanvas.toDataURL('image/png');
+  }
+
+  /**
+   * Convert captured strokes to MyScript format (world coordinates, independent of pan/zoom).
+   * byLine is for text only: math and diagrams span ruled lines.
+   */
+  getCapturedStrokes(inkStrokes: InkStroke[] = this.getRecognitionStrokes(), byLine: boolean = false): Stroke[] {
+    let strokes = inkStrokes;
+
+    // On lined paper, send the ink line by line, so late additions (i-dots,
+    // t-crosses, corrections) are grouped with the line they belong to.
+    // Timestamps are shifted to match the new order.
+    if (byLine && this.plugin.settings.paperTemplate === 'lined') {
+      strokes = retimeStrokes(([] as InkStroke[]).concat(...groupStrokesByRuledLine(strokes, this.plugin.settings.paperSpacing)));
+    }
+
+    // Drop points that don't change the shape (keeps the payload small)
+    const tolerance = this.plugin.settings.simplifyTolerance;
+    return strokes.map(stroke => simplifyStroke(stroke, tolerance));
+  }
+
+  /**
+   * Run the selected engine on the given strokes (default: the active strokes
+   * of the current page) and return the raw text with its words.
+   * Throws on failure; callers decide how to report it.
+   */
+  async recognize(options: RecognizeOptions = {}, inkStrokes: InkStroke[] = this.getRecognitionStrokes()): Promise<RecognitionResult> {
+    const input = {
+      strokes: () => this.getCapturedStrokes(inkStrokes, true),
+      bitmap: () => this.getPaddedImage(inkStrokes),
+    };
+    return recognizeInk(this.plugin.getEngine(), input, options, {
+      useStrokes: this.plugin.settings.captureStrokes,
+      fallbackToBitmap: this.plugin.settings.fallbackToBitmap,
+    });
+  }
+
+  /**
+   * Recognize and copy to the clipboard. Returns the text of each
+   * recognized page (empty if nothing was detected, recognition failed
+   * or the review was cancelled).
+   */
+  async runOcr(): Promise<string[]> {
+    return this.recognizeAndOutput('copy');
+  }
+
+  async runOcrAndInsert() {
+    await this.recognizeAndOutput('insert');
+  }
+
+  /**
+   * Recognize ink as structured Markdown: list markers, boxes and
+   * underlines come from the stroke geometry, the text of each line from
+   * the engine. Throws on failure, like recognize.
+   */
+  async recognizeStructure(strokes: InkStroke[]): Promise<RecognitionResult> {
+    const lines = analyzeInkLines(strokes);
+    const written = lines.filter(line => line.strokes.length > 0);
+    if (written.length === 0) return { text: '', words: [] };
+
+    // One request for all the writing; one per line only if its lines don't match the ink
+    const whole = await this.recognize({}, written.flatMap(line => line.strokes));
+    let lineTexts = whole.text.split('\n').map(text => text.trim()).filter(text => text.length > 0);
+    if (lineTexts.length !== written.length) {
+      lineTexts = [];
+      for (const line of written) {
+        lineTexts.push((await this.recognize({ silent: true }, line.strokes)).text);
+      }
+    }
+
+    const texts = lines.map(line => line.strokes.length > 0 ? lineTexts[written.indexOf(line)] : '');
+    const text = inkLinesToMarkdown(lines, texts);
+    return { text, words: textToWords(text) };
+  }
+
+  /**
+   * Recognize, let the user review the words (if enabled), then copy or insert
+   */
+  async recognizeAndOutput(action: OutputAction): Promise<string[]> {
+    if (this.recognitionMode === 'math') {
+      return this.recognizeMathAndOutput(action);
+    }
+    if (this.recognitionMode === 'diagram') {
+      return this.recognizeDiagramAndOutput(action);
+    }
+
+    // Taken before recognizing, so ink added meanwhile isn't embedded without its text
+    const pageStrokes = this.getInkPages();
+    const results = await this.recognizePages();
+    if (results.length === 0) return [];
+
+    const threshold = this.plugin.settings.confidenceThreshold;
+    let texts = results.map(result => result.text);
+    let pageWords = results.map(result => result.words);
+    if (this.plugin.settings.reviewBeforeOutput) {
+      const outcome = await new ReviewModal(this.app, results, action, threshold).review();
+      if (!outcome) return [];
+      texts = outcome.texts;
+      pageWords = outcome.words;
+      action = outcome.action;
+    }
+
+    // Ink files and blocks remember what they were recognized as (whole ink only)
+    if (this.isBound() && !this.recognizesSubset()) {
+      this.fileMetadata = this.recognitionMetadata(joinPageTexts(texts));
+      this.scheduleSessionSave();
+    }
+
+    // Marks only go into the output, never into the stored metadata
+    let output = texts;
+    if (this.plugin.settings.highlightLowConfidence && threshold > 0) {
+      output = texts.map((text, index) => hasLowConfidence(pageWords[index], threshold)
+        ? wordsToText(highlightLowConfidence(pageWords[index], threshold))
+        : text);
+    }
+
+    if (action === 'insert') {
+      // Structured Markdown is inserted as it is
+      await this.insertTexts(output, pageStrokes, this.plugin.settings.inkStructure ? null : this.plugin.settings.insertFormat);
+    } else {
+      await this.copyText(joinPageTexts(output));
+    }
+    return output;
+  }
+
+  async copyText(text: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      new Notice('Copied!');
+    } catch (error) {
+      console.error(error);
+      new Notice('Copy failed: ' + error.message);
+    }
+  }
+
+  /**
+   * Switch to a math or diagram mode, or back to text if it is already on
+   */
+  toggleRecognitionMode(mode: RecognitionMode) {
+    this.recognitionMode = this.recognitionMode === mode ? 'text' : mode;
+    this.mathButton?.buttonEl.toggleClass('is-active', this.recognitionMode === 'math');
+    this.diagramButton?.buttonEl.toggleClass('is-active', this.recognitionMode === 'diagram');
+    new Notice(`${RECOGNITION_MODE_NAMES[this.recognitionMode]} mode`);
+    this.scheduleAutoRecognize();
+  }
+
+  /**
+   * The selected engine if it can recognize the current mode's content;
+   * tells the user if it can't or isn't set up
+   */
+  contentEngine(): RecognitionEngine | null {
+    const engine = this.plugin.getEngine();
+    const capability = this.recognitionMode === 'math' ? 'math' : 'diagrams';
+    if (!engine.capabilities[capability]) {
+      new Notice(`${RECOGNITION_MODE_NAMES[this.recognitionMode]} mode needs ${this.plugin.engines.names(capability)}. Select it as the engine in settings.`);
+      return null;
+    }
+    if (!engine.isReady()) {
+      new Notice(`${engine.name} is not configured. Please check the settings.`);
+      return null;
+    }
+    return engine;
+  }
+
+  async withWaitCursor<T>(task: () => Promise<T>): Promise<T> {
+    const originalCursor = this.canvas.style.cursor;
+    this.canvas.style.cursor = 'wait';
+    try {
+      return await task();
+    } finally {
+      this.canvas.style.cursor = originalCursor;
+    }
+  }
+
+  /**
+   * Recognize the current page or selection as math, preview it rendered,
+   * then copy or insert it as $...$ or a $$ block
+   */
+  async recognizeMathAndOutput(action: OutputAction): Promise<string[]> {
+    const engine = this.contentEngine();
+    if (!engine?.recognizeMath) return [];
+
+    const inkStrokes = this.getRecognitionStrokes();
+    const embedStrokes = this.getActiveStrokes();
+    let latex: string;
+    try {
+      latex = await this.withWaitCursor(() => engine.recognizeMath!(this.getCapturedStrokes(inkStrokes), {}));
+    } catch (error) {
+      console.error(error);
+      new Notice('Recognition failed: ' + error.message);
+      return [];
+    }
+
+    if (!latex) {
+      new Notice('No math detected.');
+      return [];
+    }
+
+    const outcome = await new MathPreviewModal(this.app, latex, this.plugin.settings.mathDisplayMode, action).review();
+    if (!outcome) return [];
+    const text = wrapLatex(outcome.latex, outcome.display);
+
+    if (this.isBound() && !this.recognizesSubset()) {
+      this.fileMetadata = this.recognitionMetadata(text);
+      this.scheduleSessionSave();
+    }
+
+    if (outcome.action === 'insert') {
+      // Kept as is: list or quote formats would break a $$ block
+      await this.insertTexts([text], [embedStrokes], null);
+    } else {
+      await this.copyText(text);
+    }
+    return [text];
+  }
+
+  /**
+   * Recognize the shapes, connectors and labels of the current page or
+   * selection, then copy or insert them as a Mermaid flowchart block
+   */
+  async recognizeDiagramAndOutput(action: OutputAction): Promise<string[]> {
+    const engine = this.contentEngine();
+    if (!engine?.recognizeDiagram) return [];
+
+    const inkStrokes = this.getRecognitionStrokes();
+    const embedStrokes = this.getActiveStrokes();
+    let flowchart: string | null;
+    try {
+      flowchart = await this.withWaitCursor(() => engine.recognizeDiagram!(this.getCapturedStrokes(inkStrokes), {}));
+    } catch (error) {
+      console.error(error);
+      new Notice('Recognition failed: ' + error.message);
+      return [];
+    }
+
+    if (!flowchart) {
+      new Notice('No diagram detected.');
+      return [];
+    }
+    const text = '```mermaid\n' + flowchart + '\n```';
+
+    if (this.isBound() && !this.recognizesSubset()) {
+      this.fileMetadata = this.recognitionMetadata(text);
+      this.scheduleSessionSave();
+    }
+
+    if (action === 'insert') {
+      await this.insertTexts([text], [embedStrokes], null);
+    } else {
+      await this.copyText(text);
+    }
+    return [text];
+  }
+
+  /**
+   * Recognize the current page, selection or all pages. Returns one result
+   * per page, or nothing if no text was detected or recognition failed.
+   */
+  async recognizePages(): Promise<RecognitionResult[]> {
+    const originalCursor = this.canvas.style.cursor;
+    this.canvas.style.cursor = 'wait';
+
+    try {
+      const version = this.strokeVersion;
+      let results: RecognitionResult[];
+
+      // Reuse the live preview result if nothing changed since (saves a request).
+      // The preview is plain text, so not when the structure is wanted.
+      const structure = this.plugin.settings.inkStructure;
+      if (!structure && !this.recognizesAllPages() && this.previewVersion === this.strokeVersion && this.previewResult !== null) {
+        results = [this.previewResult];
+      } else {
+        const pages = this.getRecognitionPages();
+        new Notice(this.selection.size > 0
+          ? `Processing ${this.selection.size} selected strokes...`
+          : pages.length > 1 ? `Processing ${pages.length} pages...` : 'Processing handwriting...');
+
+        // One page at a time, in order
+        results = [];
+        for (const strokes of pages) {
+          results.push(structure ? await this.recognizeStructure(strokes) : await this.recognize({}, strokes));
+        }
+      }
+
+      if (!this.recognizesAllPages()) {
+        this.showConfidence(results[0], version);
+      }
+      if (!joinPageTexts(results.map(result => result.text))) {
+        new Notice('No text detected.');
+        return [];
+      }
+      return results;
+    } catch (error) {
+      console.error(error);
+      new Notice('Recognition failed: ' + error.message);
+      return [];
+    } finally {
+      this.canvas.style.cursor = originalCursor;
+    }
+  }
+
+  /**
+   * Queue a background recognition after the writing pause (debounced)
+   */
+  scheduleAutoRecognize() {
+    this.cancelAutoRecognize();
+    // The preview shows text, so it is hidden in math and diagram mode
+    const enabled = this.plugin.settings.autoRecognize && this.recognitionMode === 'text';
+    this.previewEl?.toggle(enabled);
+    if (!enabled) return;
+
+    if (this.getActiveStrokes().length === 0) {
+      this.showPreview(null);
+      return;
+    }
+
+    this.autoRecognizeTimer = window.setTimeout(
+      () => this.autoRecognize(),
+      this.plugin.settings.autoRecognizeDelay
+    );
+  }
+
+  /**
+   * Drop any queued recognition, and ignore the result of one already in flight
+   */
+  cancelAutoRecognize() {
+    if (this.autoRecognizeTimer !== null) {
+      window.clearTimeout(this.autoRecognizeTimer);
+      this.autoRecognizeTimer = null;
+    }
+    this.autoRecognizeRequest++;
+  }
+
+  async autoRecognize() {
+    this.autoRecognizeTimer = null;
+    const version = this.strokeVersion;
+    if (this.previewVersion === version) return;
+
+    // Only one request at a time; a newer one is scheduled when this finishes
+    if (this.autoRecognizeInFlight) {
+      this.autoRecognizePending = true;
+      return;
+    }
+
+    const request = ++this.autoRecognizeRequest;
+    this.autoRecognizeInFlight = true;
+    this.previewEl?.addClass('is-loading');
+    try {
+      const result = await this.recognize({ silent: true });
+      if (request === this.autoRecognizeRequest) {
+        this.previewVersion = version;
+        this.previewResult = result;
+        this.showPreview(result.text);
+        this.showConfidence(result, version);
+      }
+    } catch (error) {
+      console.warn('[OOCR] Auto-recognition failed:', error);
+    } finally {
+      this.autoRecognizeInFlight = false;
+      this.previewEl?.removeClass('is-loading');
+      if (this.autoRecognizePending) {
+        this.autoRecognizePending = false;
+        this.scheduleAutoRecognize();
+      }
+    }
+  }
+
+  showPreview(text: string | null) {
+    if (!this.previewEl) return;
+    if (text === null || !text.trim()) {
+      this.previewEl.setText(text === null ? 'Write to see recognized text here' : 'No text detected');
+      this.previewEl.addClass('is-empty');
+    } else {
+      this.previewEl.setText(text);
+      this.previewEl.removeClass('is-empty');
+    }
+  }
+
+  /**
+   * Insert page texts at the cursor of the last active note (clipboard if
+   * there is none), or append them to the inbox or daily note
+   */
+  async insertTexts(texts: string[], pageStrokes: InkStroke[][], format: InsertFormat | null = this.plugin.settings.insertFormat) {
+    if (this.plugin.settings.insertTarget !== 'cursor') {
+      await this.sendToNote(this.plugin.settings.insertTarget, texts, pageStrokes, format);
+      return;
+    }
+
+    try {
+      // Find valid markdown view to insert into
+      let markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+
+      if (!markdownView && this.plugin.lastActiveMarkdownView) {
+        markdownView = this.plugin.lastActiveMarkdownView;
+      }
+
+      if (markdownView) {
+        const editor = markdownView.editor;
+        const text = await this.formatPages(texts, pageStrokes, markdownView.file?.path ?? '', format);
+        const textToInsert = this.plugin.settings.addNewlineAfterInsert ? text + '\n' : text;
+        // Replaces the selection, if any; otherwise inserts at the cursor
+        editor.replaceSelection(textToInsert);
+        new Notice('Inserted text!');
+      } else {
+        // Fallback: copy to clipboard
+        await navigator.clipboard.writeText(joinPageTexts(texts));
+        new Notice('No active document found. Copied to clipboard instead.');
+      }
+    } catch (error) {
+      console.error(error);
+      new Notice('Insert failed: ' + error.message);
+    }
+  }
+
+  /**
+   * Page texts in the insert format (null keeps them as they are), joined,
+   * with the ink embedded above each page if enabled
+   */
+  async formatPages(texts: string[], pageStrokes: InkStroke[][], sourcePath: string, format: InsertFormat | null): Promise<string> {
+    let sections = texts.map(text => format ? formatInsertText(text, format) : text);
+
+    // Keep the original ink: embed each page's drawing above its text
+    if (this.plugin.settings.embedInkOnInsert) {
+      const embeds = await this.saveInkAttachments(pageStrokes, sourcePath);
+      sections = sections.map((text, i) => embeds[i] ? `${embeds[i]}\n${text}` : text);
+    }
+
+    return joinPageTexts(sections, PAGE_SEPARATOR);
+  }
+
+  /**
+   * Append the page texts, filled into the capture template, to the
+   * inbox note or today's daily note. Missing notes are created.
+   */
+  async sendToNote(target: InsertTarget, texts: string[], pageStrokes: InkStroke[][], format: InsertFormat | null) {
+    let path: string;
+    if (target === 'daily') {
+      // Same folder and name format as the core Daily notes plugin
+      const dailyNotes = (this.app as any).internalPlugins?.getPluginById?.('daily-notes');
+      path = normalizePath(dailyNotePath(dailyNotes?.instance?.options ?? {}, format => moment().format(format)));
+    } else {
+      const inbox = this.plugin.settings.inboxNote.trim();
+      if (!inbox) {
+        new Notice('Set an inbox note in the settings first');
+        return;
+      }
+      path = normalizePath(inbox.endsWith('.md') ? inbox : `${inbox}.md`);
+    }
+
+    try {
+      const now = moment();
+      const entry = fillTemplate(this.plugin.settings.captureTemplate, {
+        text: await this.formatPages(texts, pageStrokes, path, format),
+        date: now.format('YYYY-MM-DD'),
+        time: now.format('HH:mm'),
+        engine: this.plugin.getEngine().name,
+      });
+
+      const existing = this.app.vault.getAbstractFileByPath(path);
+      if (existing instanceof TFile) {
+        await this.app.vault.process(existing, data => appendToText(data, entry));
+      } else if (existing) {
+        throw new Error(`${path} is a folder`);
+      } else {
+        const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+          await this.app.vault.createFolder(folder);
+        }
+        await this.app.vault.create(path, appendToText('', entry));
+      }
+      new Notice(`Added to ${path}`);
+    } catch (error) {
+      console.error(error);
+      new Notice('Could not add to note: ' + error.message);
+    }
+  }
+
+  /**
+   * Save each page's ink as an SVG in the attachments folder.
+   * Returns an embed link per page (empty for pages without ink).
+   */
+  async saveInkAttachments(pages: InkStroke[][], sourcePath: string): Promise<string[]> {
+    const stamp = moment().format('YYYY-MM-DD HHmmss');
+    const embeds: string[] = [];
+    for (let i = 0; i < pages.length; i++) {
+      const svg = strokesToSvg(pages[i]);
+      if (!svg) {
+        embeds.push('');
+        continue;
+      }
+      const name = pages.length > 1 ? `Handwriting ${stamp} p${i + 1}.svg` : `Handwriting ${stamp}.svg`;
+      const path = await this.app.fileManager.getAvailablePathForAttachment(name, sourcePath);
+      const file = await this.app.vault.create(path, svg);
+      embeds.push('!' + this.app.fileManager.generateMarkdownLink(file, sourcePath));
     }
+    return embeds;
   }
 
   async saveDebugImage() {
@@ -0,0 +1,121 @@
+import { ButtonComponent } from 'obsidian';
+import { InkFileData, parseInkFile } from './inkFile';
+import { strokesToSvg } from './svgExport';
+
+export const INK_BLOCK_LANGUAGE = 'oocr-ink';
+
+const FENCE_PATTERN = new RegExp(`^\\s*(\`{3,}|~{3,})\\s*${INK_BLOCK_LANGUAGE}\\s*$`);
+
+/**
+ * Line numbers of the opening and closing fence of each closed oocr-ink block
+ */
+function findInkBlocks(lines: string[]): Array<{ start: number; end: number }> {
+  const blocks: Array<{ start: number; end: number }> = [];
+  for (let start = 0; start < lines.length; start++) {
+    const open = lines[start].match(FENCE_PATTERN);
+    if (!open) continue;
+
+    // The closing fence uses the same character, at least as long
+    const fence = open[1];
+    let end = start + 1;
+    while (end < lines.length && !(lines[end].trim().startsWith(fence) && /^\s*(`+|~+)\s*$/.test(lines[end]))) {
+      end++;
+    }
+    if (end >= lines.length) break;
+
+    blocks.push({ start, end });
+    start = end;
+  }
+  return blocks;
+}
+
+/**
+ * Replace the body of the oocr-ink block whose body is oldBody.
+ * Blocks are matched by content rather than line number, because the
+ * note can be edited while the ink is open in the canvas.
+ * Returns null if no such block exists.
+ */
+export function replaceInkBlock(markdown: string, oldBody: string, newBody: string): string | null {
+  const lines = markdown.split('\n');
+  for (const { start, end } of findInkBlocks(lines)) {
+    const body = lines.slice(start + 1, end).join('\n');
+    if (body.trim() === oldBody.trim()) {
+      lines.splice(start + 1, end - start - 1, ...newBody.split('\n'));
+      return lines.join('\n');
+    }
+  }
+  return null;
+}
+
+/**
+ * Short fingerprint of a block body (32-bit FNV-1a), to find the block
+ * again without keeping its whole body, e.g. in the workspace layout
+ */
+export function hashInkBlock(body: string): string {
+  let hash = 0x811c9dc5;
+  const text = body.trim();
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Body of the oocr-ink block with the given hash, or null if there is none
+ */
+export function findInkBlock(markdown: string, hash: string): string | null {
+  const lines = markdown.split('\n');
+  for (const { start, end } of findInkBlocks(lines)) {
+    const body = lines.slice(start + 1, end).join('\n');
+    if (hashInkBlock(body) === hash) return body;
+  }
+  return null;
+}
+
+function svgDataUrl(svg: string): string {
+  return 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+}
+
+/**
+ * Render an oocr-ink block: the ink of each page, the recognized text as
+ * a caption, and a button to edit it on the canvas
+ */
+export function renderInkBlock(source: string, el: HTMLElement, onEdit: (data: InkFileData) => void): void {
+  const container = el.createDiv({ cls: 'oocr-ink-block' });
+
+  let data: InkFileData;
+  try {
+    data = parseInkFile(source);
+  } catch (error) {
+    container.createDiv({ cls: 'oocr-ink-error', text: `Invalid ${INK_BLOCK_LANGUAGE} block: ${error.message}` });
+    return;
+  }
+
+  let hasInk = false;
+  for (const page of data.pages) {
+    const svg = strokesToSvg(page);
+    if (!svg) continue;
+    hasInk = true;
+    container.createEl('img', {
+      cls: 'oocr-ink-page',
+      attr: { src: svgDataUrl(svg), alt: data.metadata.text ?? 'Handwriting' },
+    });
+  }
+  if (!hasInk) {
+    container.createDiv({ cls: 'oocr-ink-empty', text: 'No ink yet' });
+  }
+
+  if (data.metadata.text) {
+    container.createDiv({ cls: 'oocr-ink-caption', text: data.metadata.text });
+  }
+
+  new ButtonComponent(container)
+    .setIcon('pencil')
+    .setTooltip('Edit in Handwriting OCR')
+    .onClick(evt => {
+      // In live preview a click would otherwise place the cursor in the block
+      evt.stopPropagation();
+      onEdit(data);
+    });
+}
@@ -0,0 +1,102 @@
+import { InkStroke } from './strokeRenderer';
+
+export const INK_FILE_EXTENSION = 'oocr';
+export const INK_FILE_VERSION = 1;
+
+/**
+ * What the ink was last recognized as, and how
+ */
+export interface InkFileMetadata {
+  engine?: string;  // 'myscript' or 'tesseract'
+  language?: string;
+  text?: string;  // Recognized text of all pages
+  recognizedAt?: number;  // Epoch ms
+}
+
+/**
+ * Contents of a .oocr vault file: the stroke model of each page plus
+ * metadata. Stored as JSON, so files stay readable and sync well.
+ */
+export interface InkFileData {
+  version: number;
+  pages: InkStroke[][];
+  metadata: InkFileMetadata;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Hex colours only: the colour ends up in SVG attributes of exported attachments
+function isColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{3,8}$/i.test(value);
+}
+
+/**
+ * Validate one stroke read from disk. Malformed points are dropped;
+ * returns null if nothing usable is left.
+ */
+export function parseInkStroke(raw: any): InkStroke | null {
+  if (!raw || !Array.isArray(raw.points)) return null;
+  const points = raw.points.filter((p: any) => p && isNumber(p.x) && isNumber(p.y) && isNumber(p.t));
+  if (points.length === 0) return null;
+
+  const stroke: InkStroke = { points };
+  if (raw.style && isColor(raw.style.color) && isNumber(raw.style.width)) {
+    stroke.style = { color: raw.style.color, width: raw.style.width, highlighter: raw.style.highlighter === true };
+  }
+  return stroke;
+}
+
+export function parseInkStrokes(raw: unknown): InkStroke[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(parseInkStroke).filter((stroke): stroke is InkStroke => stroke !== null);
+}
+
+export function serializeInkFile(pages: InkStroke[][], metadata: InkFileMetadata = {}): string {
+  const data: InkFileData = { version: INK_FILE_VERSION, pages, metadata };
+  return JSON.stringify(data);
+}
+
+/**
+ * Read a .oocr file. An empty file is a blank canvas; anything that is
+ * not ink data (or from a newer version of the plugin) throws.
+ */
+export function parseInkFile(text: string): InkFileData {
+  if (!text.trim()) {
+    return { version: INK_FILE_VERSION, pages: [[]], metadata: {} };
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error('Not a valid ink file');
+  }
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Not a valid ink file');
+  }
+  if (isNumber(raw.version) && raw.version > INK_FILE_VERSION) {
+    throw new Error(`Ink file version ${raw.version} is newer than this plugin supports`);
+  }
+
+  // A plain stroke list (bare or as "strokes") is accepted as a single page
+  const pages = Array.isArray(raw)
+    ? [parseInkStrokes(raw)]
+    : Array.isArray(raw.pages)
+      ? raw.pages.filter((page: unknown) => Array.isArray(page)).map(parseInkStrokes)
+      : [parseInkStrokes(raw.strokes)];
+
+  const meta = raw.metadata ?? {};
+  const metadata: InkFileMetadata = {};
+  if (typeof meta.engine === 'string') metadata.engine = meta.engine;
+  if (typeof meta.language === 'string') metadata.language = meta.language;
+  if (typeof meta.text === 'string') metadata.text = meta.text;
+  if (isNumber(meta.recognizedAt)) metadata.recognizedAt = meta.recognizedAt;
+
+  return {
+    version: INK_FILE_VERSION,
+    pages: pages.length > 0 ? pages : [[]],
+    metadata,
+  };
+}
@@ -0,0 +1,33 @@
+import { InkStroke } from './strokeRenderer';
+import { StrokeHistory } from './strokeHistory';
+
+export const PAGE_SEPARATOR = '\n\n---\n\n';
+
+/**
+ * One page of a handwriting session. Each page has its own strokes and
+ * undo history, so undo never reaches across pages.
+ */
+export interface InkPage {
+  strokes: InkStroke[];
+  history: StrokeHistory<InkStroke>;
+  height: number;  // World height, grows as you write (0 = fit to the view)
+}
+
+export function createPage(): InkPage {
+  return {
+    strokes: [],
+    history: new StrokeHistory<InkStroke>(),
+    height: 0,
+  };
+}
+
+/**
+ * Join the recognized text of several pages in page order.
+ * Pages without text are skipped, so blank pages don't leave empty sections.
+ */
+export function joinPageTexts(texts: string[], separator: string = PAGE_SEPARATOR): string {
+  return texts
+    .map(text => text.trim())
+    .filter(text => text.length > 0)
+    .join(separator);
+}
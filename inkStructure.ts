@@ -0,0 +1,294 @@
+import { Stroke, StrokePoint } from './myScriptService';
+import { Bounds, strokesBounds } from './strokeGeometry';
+
+export type LineMarker = 'bullet' | 'task' | 'done';  // done: a ticked or crossed-out box
+
+/**
+ * One written line, with the marks that give it structure taken out
+ */
+export interface InkLine<T extends Stroke = Stroke> {
+  strokes: T[];  // The writing, without marker or underline
+  bounds: Bounds | null;  // Of the writing
+  marker: LineMarker | null;
+  markerX: number;  // Left edge of the marker (or writing), for nesting list items
+  underlined: boolean;
+}
+
+const UNDERLINE_MIN_WIDTH = 60;  // px
+const FLAT_RATIO = 0.15;  // Height/width below which a stroke counts as a horizontal line
+const DOT_SIZE = 8;  // Marks up to this size (px) are dots
+const LINE_OVERLAP = 0.5;  // Vertical overlap (of the smaller band) to share a line
+const HEADING_SCALE = 1.6;  // Writing this much larger than usual is a heading
+const SAMPLE_STEP = 2;  // px between interpolated points when testing box outlines
+
+interface Band<T> {
+  strokes: T[];
+  underlines: T[];
+  minY: number;
+  maxY: number;
+}
+
+function bandOverlap(aMin: number, aMax: number, bMin: number, bMax: number): number {
+  const overlap = Math.min(aMax, bMax) - Math.max(aMin, bMin);
+  const smaller = Math.max(1, Math.min(aMax - aMin, bMax - bMin));
+  return overlap / smaller;
+}
+
+function addToBands<T extends Stroke>(bands: Band<T>[], stroke: T, bounds: Bounds): void {
+  const centerY = (bounds.minY + bounds.maxY) / 2;
+  const band = bands.find(candidate =>
+    (centerY >= candidate.minY && centerY <= candidate.maxY)
+    || bandOverlap(bounds.minY, bounds.maxY, candidate.minY, candidate.maxY) >= LINE_OVERLAP);
+  if (band) {
+    band.strokes.push(stroke);
+    band.minY = Math.min(band.minY, bounds.minY);
+    band.maxY = Math.max(band.maxY, bounds.maxY);
+  } else {
+    bands.push({ strokes: [stroke], underlines: [], minY: bounds.minY, maxY: bounds.maxY });
+  }
+}
+
+/**
+ * Merge bands that grew into each other (e.g. a tall letter written last)
+ */
+function mergeBands<T>(bands: Band<T>[]): Band<T>[] {
+  const sorted = [...bands].sort((a, b) => a.minY - b.minY);
+  const merged: Band<T>[] = [];
+  for (const band of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && bandOverlap(last.minY, last.maxY, band.minY, band.maxY) >= LINE_OVERLAP) {
+      last.strokes.push(...band.strokes);
+      last.underlines.push(...band.underlines);
+      last.maxY = Math.max(last.maxY, band.maxY);
+    } else {
+      merged.push({ ...band, strokes: [...band.strokes], underlines: [...band.underlines] });
+    }
+  }
+  return merged;
+}
+
+function isFlatLine(bounds: Bounds): boolean {
+  const width = bounds.maxX - bounds.minX;
+  return width >= UNDERLINE_MIN_WIDTH && bounds.maxY - bounds.minY <= width * FLAT_RATIO;
+}
+
+/**
+ * Group strokes into written lines, top to bottom, each ordered left to
+ * right. Long horizontal strokes just below a line are returned as its
+ * underline instead of as part of a line.
+ */
+export function groupStrokesIntoLines<T extends Stroke>(strokes: T[]): Array<{ strokes: T[]; underlines: T[] }> {
+  const bounded = strokes
+    .map(stroke => ({ stroke, bounds: strokesBounds([stroke]) }))
+    .filter((item): item is { stroke: T; bounds: Bounds } => item.bounds !== null);
+
+  let bands: Band<T>[] = [];
+  const flat: Array<{ stroke: T; bounds: Bounds }> = [];
+  for (const item of bounded) {
+    if (isFlatLine(item.bounds)) {
+      flat.push(item);
+    } else {
+      addToBands(bands, item.stroke, item.bounds);
+    }
+  }
+  bands = mergeBands(bands);
+
+  // An underline sits below the middle of a line and spans much of it
+  for (const item of flat) {
+    const y = (item.bounds.minY + item.bounds.maxY) / 2;
+    const band = bands.find(candidate => {
+      const height = candidate.maxY - candidate.minY;
+      const line = strokesBounds(candidate.strokes)!;
+      const overlap = Math.min(line.maxX, item.bounds.maxX) - Math.max(line.minX, item.bounds.minX);
+      return y >= (candidate.minY + candidate.maxY) / 2 && y <= candidate.maxY + height * 0.6
+        && overlap >= (item.bounds.maxX - item.bounds.minX) * 0.5;
+    });
+    if (band) {
+      band.underlines.push(item.stroke);
+    } else {
+      // A dash, minus sign or rule: ordinary ink
+      addToBands(bands, item.stroke, item.bounds);
+    }
+  }
+
+  return mergeBands(bands).map(band => ({
+    strokes: [...band.strokes].sort((a, b) => strokesBounds([a])!.minX - strokesBounds([b])!.minX),
+    underlines: band.underlines,
+  }));
+}
+
+/**
+ * Points along a stroke no more than SAMPLE_STEP apart, so sparse fast
+ * strokes still cover the outline they were drawn along
+ */
+function samplePoints(stroke: Stroke): StrokePoint[] {
+  const samples: StrokePoint[] = [];
+  stroke.points.forEach((point, index) => {
+    const previous = stroke.points[index - 1];
+    if (previous) {
+      const steps = Math.floor(Math.hypot(point.x - previous.x, point.y - previous.y) / SAMPLE_STEP);
+      for (let i = 1; i < steps; i++) {
+        samples.push({
+          x: previous.x + (point.x - previous.x) * i / steps,
+          y: previous.y + (point.y - previous.y) * i / steps,
+          t: point.t,
+        });
+      }
+    }
+    samples.push(point);
+  });
+  return samples;
+}
+
+/**
+ * Whether marks form a box: ink along most of each of the four sides and
+ * into the corners (which rules out circles, like an "o"). Also tells
+ * whether there is ink inside it (a tick or cross).
+ */
+export function detectBox(strokes: Stroke[]): { box: boolean; filled: boolean } {
+  const bounds = strokesBounds(strokes);
+  if (!bounds) return { box: false, filled: false };
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  if (width < DOT_SIZE || height < DOT_SIZE || width / height < 0.6 || width / height > 1.6) {
+    return { box: false, filled: false };
+  }
+
+  const tolerance = Math.min(width, height) * 0.2;
+  const cornerTolerance = Math.max(2, Math.min(width, height) * 0.12);
+  const bins = 8;
+  const sides = [new Set<number>(), new Set<number>(), new Set<number>(), new Set<number>()];
+  const corners = new Set<string>();
+  let inside = 0;
+  let total = 0;
+  for (const stroke of strokes) {
+    for (const p of samplePoints(stroke)) {
+      total++;
+      const xBin = Math.min(bins - 1, Math.floor((p.x - bounds.minX) / width * bins));
+      const yBin = Math.min(bins - 1, Math.floor((p.y - bounds.minY) / height * bins));
+      let onEdge = false;
+      if (p.y - bounds.minY <= tolerance) { sides[0].add(xBin); onEdge = true; }
+      if (bounds.maxY - p.y <= tolerance) { sides[1].add(xBin); onEdge = true; }
+      if (p.x - bounds.minX <= tolerance) { sides[2].add(yBin); onEdge = true; }
+      if (bounds.maxX - p.x <= tolerance) { sides[3].add(yBin); onEdge = true; }
+      if (!onEdge) inside++;
+
+      const nearX = p.x - bounds.minX <= cornerTolerance ? 'left' : bounds.maxX - p.x <= cornerTolerance ? 'right' : null;
+      const nearY = p.y - bounds.minY <= cornerTolerance ? 'top' : bounds.maxY - p.y <= cornerTolerance ? 'bottom' : null;
+      if (nearX && nearY) corners.add(nearY + nearX);
+    }
+  }
+
+  const box = sides.every(side => side.size >= bins * 0.75) && corners.size >= 3;
+  return { box, filled: box && inside / Math.max(1, total) >= 0.1 };
+}
+
+interface MarkerSplit<T> {
+  marker: LineMarker | null;
+  markerStrokes: T[];
+  text: T[];
+}
+
+/**
+ * Find a list marker at the start of a line: a dot or short dash
+ * (bullet) or a small box (task), set apart from the writing after it
+ */
+export function splitMarker<T extends Stroke>(strokes: T[]): MarkerSplit<T> {
+  const none: MarkerSplit<T> = { marker: null, markerStrokes: [], text: strokes };
+  if (strokes.length < 2) return none;
+
+  const lineBounds = strokesBounds(strokes)!;
+  const lineHeight = lineBounds.maxY - lineBounds.minY;
+  const gap = Math.max(6, lineHeight * 0.2);
+
+  // Leading strokes up to the first clear gap
+  const sorted = [...strokes].sort((a, b) => strokesBounds([a])!.minX - strokesBounds([b])!.minX);
+  let markerEnd = strokesBounds([sorted[0]])!.maxX;
+  let count = 1;
+  while (count < sorted.length && strokesBounds([sorted[count]])!.minX < markerEnd + gap) {
+    markerEnd = Math.max(markerEnd, strokesBounds([sorted[count]])!.maxX);
+    count++;
+  }
+  if (count === sorted.length) return none;
+
+  const markerStrokes = sorted.slice(0, count);
+  const text = sorted.slice(count);
+  const mark = strokesBounds(markerStrokes)!;
+  const textBounds = strokesBounds(text)!;
+  const textHeight = textBounds.maxY - textBounds.minY;
+  const width = mark.maxX - mark.minX;
+  const height = mark.maxY - mark.minY;
+
+  if (Math.max(width, height) <= Math.max(DOT_SIZE, textHeight * 0.25)) {
+    return { marker: 'bullet', markerStrokes, text };
+  }
+  if (markerStrokes.length === 1 && width > height && width <= textHeight * 1.5 && height <= Math.max(4, width * 0.35)) {
+    return { marker: 'bullet', markerStrokes, text };
+  }
+  if (height >= textHeight * 0.4 && height <= textHeight * 1.6) {
+    const { box, filled } = detectBox(markerStrokes);
+    if (box) {
+      return { marker: filled ? 'done' : 'task', markerStrokes, text };
+    }
+  }
+  return none;
+}
+
+/**
+ * Lines of the ink with their list markers and underlines
+ */
+export function analyzeInkLines<T extends Stroke>(strokes: T[]): InkLine<T>[] {
+  return groupStrokesIntoLines(strokes).map(line => {
+    const { marker, markerStrokes, text } = splitMarker(line.strokes);
+    const bounds = strokesBounds(text);
+    const start = strokesBounds(markerStrokes.length > 0 ? markerStrokes : text);
+    return {
+      strokes: text,
+      bounds,
+      marker,
+      markerX: start ? start.minX : 0,
+      underlined: line.underlines.length > 0,
+    };
+  });
+}
+
+/**
+ * Markdown for analyzed lines and the text recognized on each (same order).
+ * Writing much larger than the page's usual size becomes a level 1
+ * heading, an underlined line a level 2 heading; list items are nested
+ * by how far their marker is indented.
+ */
+export function inkLinesToMarkdown(lines: InkLine[], texts: string[]): string {
+  const heights = lines
+    .filter(line => line.bounds)
+    .map(line => line.bounds!.maxY - line.bounds!.minY)
+    .sort((a, b) => a - b);
+  const usualHeight = heights.length > 0 ? heights[Math.floor((heights.length - 1) / 2)] : 0;
+
+  const listLines = lines.filter(line => line.marker);
+  const listLeft = listLines.length > 0 ? Math.min(...listLines.map(line => line.markerX)) : 0;
+  const indentWidth = Math.max(10, usualHeight * 1.5);
+
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    const text = (texts[index] ?? '').replace(/\s+/g, ' ').trim();
+    if (!text && !line.marker) return;
+
+    if (line.marker) {
+      const indent = '  '.repeat(Math.max(0, Math.round((line.markerX - listLeft) / indentWidth)));
+      const box = line.marker === 'task' ? '[ ] ' : line.marker === 'done' ? '[x] ' : '';
+      output.push(`${indent}- ${box}${text}`.trimEnd());
+      return;
+    }
+
+    const height = line.bounds ? line.bounds.maxY - line.bounds.minY : 0;
+    if (lines.length > 1 && usualHeight > 0 && height >= usualHeight * HEADING_SCALE) {
+      output.push(`# ${text}`);
+    } else if (line.underlined) {
+      output.push(`## ${text}`);
+    } else {
+      output.push(text);
+    }
+  });
+  return output.join('\n');
+}
@@ -0,0 +1,52 @@
+export type InsertFormat = 'lines' | 'paragraph' | 'bullets' | 'tasks' | 'quote' | 'callout';
+
+export const INSERT_FORMATS: Record<InsertFormat, string> = {
+  lines: 'Keep line breaks',
+  paragraph: 'Single paragraph',
+  bullets: 'Bullet list',
+  tasks: 'Task list',
+  quote: 'Blockquote',
+  callout: 'Callout',
+};
+
+/**
+ * Lines of recognized text without surrounding whitespace or blank lines
+ */
+function textLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+/**
+ * A handwritten list marker ("- milk", "• eggs", "[ ] call") is replaced
+ * by the Markdown one instead of being doubled
+ */
+function stripListMarker(line: string): string {
+  return line.replace(/^(?:[-*•]\s+)?(?:\[[ xX]?\]\s+)?/, '');
+}
+
+function quoteLines(lines: string[]): string {
+  return lines.map(line => `> ${line}`).join('\n');
+}
+
+/**
+ * Format recognized text for inserting into a note
+ */
+export function formatInsertText(text: string, format: InsertFormat): string {
+  const lines = textLines(text);
+
+  switch (format) {
+    case 'paragraph':
+      return lines.join(' ');
+    case 'bullets':
+      return lines.map(line => `- ${stripListMarker(line)}`).join('\n');
+    case 'tasks':
+      return lines.map(line => `- [ ] ${stripListMarker(line)}`).join('\n');
+    case 'quote':
+      return quoteLines(lines);
+    case 'callout':
+      return lines.length > 0 ? `> [!note]\n${quoteLines(lines)}` : '';
+    case 'lines':
+    default:
+      return lines.join('\n');
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * LaTeX without surrounding math delimiters ($, $$, \( \) or \[ \])
+ */
+export function stripMathDelimiters(latex: string): string {
+  const trimmed = latex.trim();
+  const match = /^\$\$([\s\S]*)\$\$$/.exec(trimmed)
+    ?? /^\$([\s\S]*)\$$/.exec(trimmed)
+    ?? /^\\\(([\s\S]*)\\\)$/.exec(trimmed)
+    ?? /^\\\[([\s\S]*)\\\]$/.exec(trimmed);
+  return match ? match[1].trim() : trimmed;
+}
+
+/**
+ * Markdown math: $...$ inline, or a $$ block on lines of its own
+ */
+export function wrapLatex(latex: string, display: boolean): string {
+  const body = stripMathDelimiters(latex);
+  if (!body) return '';
+  return display ? `$$\n${body}\n$$` : `$${body.replace(/\s*\n\s*/g, ' ')}$`;
+}
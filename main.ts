@@ -1,13 +1,21 @@
 import { Plugin, Notice, TFile, WorkspaceLeaf, MarkdownView } from 'obsidian';
 import { OcrService } from './ocrService';
 import { MyScriptService } from './myScriptService';
+import { EngineRegistry, RecognitionEngine } from './recognitionEngine';
+import { TesseractEngine } from './tesseractEngine';
+import { MyScriptEngine } from './myScriptEngine';
 import { HandwritingView, HANDWRITING_VIEW_TYPE } from './handwritingView';
 import { OOCRSettings, DEFAULT_SETTINGS, OOCRSettingTab } from './settings';
+import { SessionStore } from './sessionStore';
+import { INK_FILE_EXTENSION } from './inkFile';
+import { INK_BLOCK_LANGUAGE, renderInkBlock, hashInkBlock } from './inkBlock';
 
 export default class OOCRPlugin extends Plugin {
   public settings: OOCRSettings;
   private ocrService: OcrService;
   public myScriptService: MyScriptService;
+  public engines = new EngineRegistry();
+  public sessionStore: SessionStore;
   public lastActiveMarkdownView: MarkdownView | null = null;
 
   async onload() {
@@ -22,14 +30,30 @@ export default class OOCRPlugin extends Plugin {
     this.myScriptService = new MyScriptService(this.app, this);
     this.updateMyScriptConfig();
 
+    // Recognition engines, in the order of the settings dropdown
+    this.engines.register(new TesseractEngine(this, this.ocrService));
+    this.engines.register(new MyScriptEngine(this, this.myScriptService));
+
+    // Saved canvas contents (loaded before the view can be restored)
+    this.sessionStore = new SessionStore(this.app, `${this.manifest.dir}/sessions.json`);
+    await this.sessionStore.load();
+
     // Register settings tab
     this.addSettingTab(new OOCRSettingTab(this.app, this));
 
     this.registerView(
       HANDWRITING_VIEW_TYPE,
-      (leaf) => new HandwritingView(leaf, this.ocrService, this.myScriptService, this)
+      (leaf) => new HandwritingView(leaf, this)
     );
 
+    // .oocr ink files open in the handwriting view for editing
+    this.registerExtensions([INK_FILE_EXTENSION], HANDWRITING_VIEW_TYPE);
+
+    // Ink stored inline in notes
+    this.registerMarkdownCodeBlockProcessor(INK_BLOCK_LANGUAGE, (source, el, ctx) => {
+      renderInkBlock(source, el, () => this.openInkBlock(ctx.sourcePath, source));
+    });
+
     this.registerEvent(
       this.app.workspace.on('active-leaf-change', (leaf) => {
         if (leaf?.view instanceof MarkdownView) {
@@ -50,14 +74,180 @@ export default class OOCRPlugin extends Plugin {
       }
     });
 
+    // Stroke history (bindable to hardware buttons via hotkeys)
+    this.addCommand({
+      id: 'undo-stroke',
+      name: 'Undo Last Stroke',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.undo();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    this.addCommand({
+      id: 'redo-stroke',
+      name: 'Redo Stroke',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.redo();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    this.addCommand({
+      id: 'toggle-eraser',
+      name: 'Toggle Eraser',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.toggleEraser();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    this.addCommand({
+      id: 'toggle-math-mode',
+      name: 'Toggle Math Mode',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.toggleRecognitionMode('math');
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    this.addCommand({
+      id: 'toggle-diagram-mode',
+      name: 'Toggle Diagram Mode',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.toggleRecognitionMode('diagram');
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    this.addCommand({
+      id: 'next-page',
+      name: 'Next Handwriting Page',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.nextPage();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    this.addCommand({
+      id: 'previous-page',
+      name: 'Previous Handwriting Page',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.previousPage();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    this.addCommand({
+      id: 'new-page',
+      name: 'New Handwriting Page',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.addPage();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    this.addCommand({
+      id: 'new-session',
+      name: 'New Handwriting Session',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.newSession();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    this.addCommand({
+      id: 'restore-session',
+      name: 'Restore Previous Handwriting Session',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.showSessionHistory();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    this.addCommand({
+      id: 'save-ink-file',
+      name: 'Save Handwriting as Ink File',
+      checkCallback: (checking: boolean) => {
+        const view = this.getHandwritingView();
+        if (view) {
+          if (!checking) {
+            view.saveAsInkFile();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
     this.addCommand({
       id: 'run-ocr-test',
       name: 'Test OCR on Sample URL',
       callback: async () => {
         new Notice("Starting OCR test...");
         try {
-          const text = await this.ocrService.recognize('https://tesseract.projectnaptha.com/img/eng_bw.png');
-          console.log("OCR Result:", text);
+          const result = await this.ocrService.recognize('https://tesseract.projectnaptha.com/img/eng_bw.png');
+          console.log("OCR Result:", result.text, result.words);
           new Notice("OCR Complete! Check console.");
         } catch (e) {
           new Notice("OCR Failed: " + e);
@@ -68,11 +258,13 @@ export default class OOCRPlugin extends Plugin {
     // Quick switch command
     this.addCommand({
       id: 'toggle-ocr-engine',
-      name: 'Toggle OCR Engine (Tesseract <-> MyScript)',
+      name: 'Switch to Next OCR Engine',
       callback: async () => {
-        this.settings.ocrEngine = this.settings.ocrEngine === 'tesseract' ? 'myscript' : 'tesseract';
+        const engines = this.engines.list();
+        const next = engines[(engines.indexOf(this.getEngine()) + 1) % engines.length];
+        this.settings.ocrEngine = next.id;
         await this.saveSettings();
-        new Notice(`Switched to ${this.settings.ocrEngine === 'myscript' ? 'MyScript' : 'Tesseract'}`);
+        new Notice(`Switched to ${next.name}`);
       }
     });
 
@@ -111,6 +303,13 @@ export default class OOCRPlugin extends Plugin {
     await this.saveData(this.settings);
   }
 
+  /**
+   * The engine selected in the settings, or the first one if it is unknown
+   */
+  getEngine(): RecognitionEngine {
+    return this.engines.get(this.settings.ocrEngine) ?? this.engines.list()[0];
+  }
+
   updateMyScriptConfig() {
     if (this.myScriptService && this.settings.myScriptApplicationKey) {
       this.myScriptService.configure({
@@ -123,7 +322,9 @@ export default class OOCRPlugin extends Plugin {
   async activateView() {
     const { workspace } = this.app;
     let leaf: WorkspaceLeaf | null = null;
-    const leaves = workspace.getLeavesOfType(HANDWRITING_VIEW_TYPE);
+    // The canvas, not a view showing an ink file
+    const leaves = workspace.getLeavesOfType(HANDWRITING_VIEW_TYPE)
+      .filter(leaf => !(leaf.view instanceof HandwritingView && leaf.view.isBound()));
 
     if (leaves.length > 0) {
       leaf = leaves[0];
@@ -140,6 +341,29 @@ export default class OOCRPlugin extends Plugin {
     }
   }
 
+  /**
+   * Edit an oocr-ink code block on a canvas in a new tab
+   */
+  async openInkBlock(sourcePath: string, source: string) {
+    const leaf = this.app.workspace.getLeaf('tab');
+    // Bound through the view state, so the tab reopens on the block after a restart
+    await leaf.setViewState({ type: HANDWRITING_VIEW_TYPE, active: true, state: { block: { sourcePath, hash: hashInkBlock(source) } } });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  getHandwritingView(): HandwritingView | null {
+    // Prefer the one in use (there can be several with ink files open)
+    const active = this.app.workspace.getActiveViewOfType(HandwritingView);
+    if (active) {
+      return active;
+    }
+    const leaves = this.app.workspace.getLeavesOfType(HANDWRITING_VIEW_TYPE);
+    if (leaves.length > 0 && leaves[0].view instanceof HandwritingView) {
+      return leaves[0].view;
+    }
+    return null;
+  }
+
   isImage(file: TFile): boolean {
     const extensions = ["png", "jpg", "jpeg", "webp", "bmp"];
     return extensions.includes(file.extension.toLowerCase());
@@ -149,17 +373,10 @@ export default class OOCRPlugin extends Plugin {
     new Notice(`Starting OCR on ${file.name}...`);
     try {
       const arrayBuffer = await this.app.vault.readBinary(file);
-      let text = '';
+      const mimeType = `image/${file.extension === 'jpg' ? 'jpeg' : file.extension}`;
 
-      // Use selected engine
-      if (this.settings.ocrEngine === 'myscript' && this.myScriptService?.isConfigured()) {
-        text = await this.myScriptService.recognizeBitmap(arrayBuffer, `image/${file.extension === 'jpg' ? 'jpeg' : file.extension}`);
-      } else {
-        const blob = new Blob([arrayBuffer]);
-        const url = URL.createObjectURL(blob);
-        text = await this.ocrService.recognize(url);
-        URL.revokeObjectURL(url);
-      }
+      // Selected engine, or one that can read images
+      const { text } = await this.engines.recognizeImage(this.settings.ocrEngine, arrayBuffer, mimeType);
 
       if (text.trim().length === 0) {
         new Notice("OCR finished, but no text was found.");
@@ -0,0 +1,115 @@
+import { App, Modal, ButtonComponent, Setting, TextAreaComponent, renderMath, finishRenderMath } from 'obsidian';
+import { OutputAction } from './reviewModal';
+import { stripMathDelimiters } from './latex';
+
+export interface MathOutcome {
+  latex: string;  // Without delimiters
+  display: boolean;  // $$ block instead of inline $
+  action: OutputAction;
+}
+
+/**
+ * Shows recognized math rendered, with its LaTeX for fixing small
+ * misreads, before it is copied or inserted
+ */
+export class MathPreviewModal extends Modal {
+  private latex: string;
+  private display: boolean;
+  private action: OutputAction;
+  private previewEl: HTMLElement | null = null;
+  private outcome: MathOutcome | null = null;
+  private resolve: ((outcome: MathOutcome | null) => void) | null = null;
+
+  constructor(app: App, latex: string, display: boolean, action: OutputAction) {
+    super(app);
+    this.latex = stripMathDelimiters(latex);
+    this.display = display;
+    this.action = action;
+  }
+
+  /**
+   * Open the modal; resolves with the (edited) LaTeX, or null if cancelled
+   */
+  review(): Promise<MathOutcome | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText('Recognized math');
+
+    this.previewEl = contentEl.createDiv({ cls: 'oocr-math-preview' });
+
+    const source = new TextAreaComponent(contentEl)
+      .setValue(this.latex)
+      .onChange(value => {
+        this.latex = value;
+        this.renderPreview();
+      });
+    source.inputEl.addClass('oocr-math-source');
+    source.inputEl.rows = 3;
+
+    new Setting(contentEl)
+      .setName('Display math')
+      .setDesc('Insert as a $$ block instead of inline $...$')
+      .addToggle(toggle => toggle
+        .setValue(this.display)
+        .onChange(value => {
+          this.display = value;
+          this.renderPreview();
+        })
+      );
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+    new ButtonComponent(buttons)
+      .setButtonText('Cancel')
+      .onClick(() => this.close());
+    const copy = new ButtonComponent(buttons)
+      .setButtonText('Copy')
+      .onClick(() => this.finish('copy'));
+    const insert = new ButtonComponent(buttons)
+      .setButtonText('Insert')
+      .onClick(() => this.finish('insert'));
+    (this.action === 'insert' ? insert : copy).setCta();
+
+    this.renderPreview();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.previewEl = null;
+    this.resolve?.(this.outcome);
+    this.resolve = null;
+  }
+
+  finish(action: OutputAction) {
+    const latex = stripMathDelimiters(this.latex);
+    if (latex) {
+      this.outcome = { latex, display: this.display, action };
+    }
+    this.close();
+  }
+
+  renderPreview() {
+    const el = this.previewEl;
+    if (!el) return;
+    el.empty();
+
+    const latex = stripMathDelimiters(this.latex);
+    if (!latex) {
+      el.setText('No math to preview');
+      return;
+    }
+    try {
+      el.appendChild(renderMath(latex, this.display));
+      void finishRenderMath();
+    } catch (error) {
+      // Keep the LaTeX editable even if MathJax can't render it
+      el.setText(latex);
+    }
+  }
+}
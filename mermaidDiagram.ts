@@ -0,0 +1,154 @@
+import { Bounds } from './strokeGeometry';
+
+interface DiagramNode {
+  id: string;  // JIIX element id
+  kind: string;
+  bounds: Bounds | null;
+  labels: string[];
+}
+
+interface DiagramEdge {
+  from: string;
+  to: string;
+  arrowFrom: boolean;
+  arrowTo: boolean;
+  bounds: Bounds | null;
+  labels: string[];
+}
+
+/**
+ * Mermaid brackets for each JIIX node kind; anything else is a rectangle
+ */
+const NODE_SHAPES: Record<string, [string, string]> = {
+  rectangle: ['[', ']'],
+  'rounded-rectangle': ['(', ')'],
+  ellipse: ['([', '])'],
+  circle: ['((', '))'],
+  rhombus: ['{', '}'],
+  parallelogram: ['[/', '/]'],
+  polygon: ['{{', '}}'],
+};
+
+const EDGE_LABEL_MARGIN = 10;  // Text this close to a connector labels it (JIIX units)
+
+function jiixBounds(box: any): Bounds | null {
+  if (!box || typeof box.x !== 'number' || typeof box.y !== 'number') return null;
+  const width = typeof box.width === 'number' ? box.width : 0;
+  const height = typeof box.height === 'number' ? box.height : 0;
+  return { minX: box.x, minY: box.y, maxX: box.x + width, maxY: box.y + height };
+}
+
+function contains(bounds: Bounds | null, x: number, y: number, margin: number = 0): boolean {
+  return !!bounds
+    && x >= bounds.minX - margin && x <= bounds.maxX + margin
+    && y >= bounds.minY - margin && y <= bounds.maxY + margin;
+}
+
+function area(bounds: Bounds | null): number {
+  return bounds ? (bounds.maxX - bounds.minX) * (bounds.maxY - bounds.minY) : Infinity;
+}
+
+/**
+ * All elements of a JIIX diagram, including those nested in groups
+ */
+function flattenElements(elements: unknown): any[] {
+  if (!Array.isArray(elements)) return [];
+  return elements.flatMap((element: any) => element && typeof element === 'object'
+    ? [element, ...flattenElements(element.elements)]
+    : []);
+}
+
+function isArrowHead(decoration: unknown): boolean {
+  return typeof decoration === 'string' && decoration.includes('arrow');
+}
+
+function quote(label: string): string {
+  return `"${label.replace(/"/g, '#quot;').replace(/\n/g, '<br>')}"`;
+}
+
+/**
+ * Turn a MyScript JIIX diagram into a Mermaid flowchart. Shapes become
+ * nodes, connectors between two shapes become links, and text is used as
+ * the label of the shape (or connector) it was written in; other text
+ * becomes a node of its own. Returns null if there is nothing to draw.
+ */
+export function jiixToMermaid(jiix: any): string | null {
+  const elements = flattenElements(jiix?.elements);
+
+  const nodes: DiagramNode[] = elements
+    .filter(element => element.type === 'Node' && element.id !== undefined)
+    .map(element => ({
+      id: String(element.id),
+      kind: typeof element.kind === 'string' ? element.kind : 'rectangle',
+      bounds: jiixBounds(element['bounding-box']),
+      labels: typeof element.label === 'string' && element.label.trim() ? [element.label.trim()] : [],
+    }));
+  const nodeIds = new Set(nodes.map(node => node.id));
+
+  // Only connectors joining two shapes become links
+  const edges: DiagramEdge[] = [];
+  for (const element of elements) {
+    if (element.type !== 'Edge' || !Array.isArray(element.connected)) continue;
+    const connected: string[] = element.connected.map(String).filter((id: string) => nodeIds.has(id));
+    if (connected.length < 2) continue;
+    edges.push({
+      from: connected[0],
+      to: connected[1],
+      arrowFrom: isArrowHead(element.p1Decoration),
+      arrowTo: isArrowHead(element.p2Decoration),
+      bounds: jiixBounds(element['bounding-box']),
+      labels: [],
+    });
+  }
+
+  // Text goes to the smallest shape it is inside, else to a connector it is next to
+  const texts = elements
+    .filter(element => element.type === 'Text' && typeof element.label === 'string' && element.label.trim())
+    .map(element => ({ label: element.label.trim() as string, bounds: jiixBounds(element['bounding-box']) }))
+    .sort((a, b) => (a.bounds?.minY ?? 0) - (b.bounds?.minY ?? 0) || (a.bounds?.minX ?? 0) - (b.bounds?.minX ?? 0));
+  texts.forEach((text, index) => {
+    const x = text.bounds ? (text.bounds.minX + text.bounds.maxX) / 2 : NaN;
+    const y = text.bounds ? (text.bounds.minY + text.bounds.maxY) / 2 : NaN;
+    const node = nodes
+      .filter(candidate => contains(candidate.bounds, x, y))
+      .sort((a, b) => area(a.bounds) - area(b.bounds))[0];
+    if (node) {
+      node.labels.push(text.label);
+      return;
+    }
+    const edge = edges.find(candidate => contains(candidate.bounds, x, y, EDGE_LABEL_MARGIN));
+    if (edge) {
+      edge.labels.push(text.label);
+      return;
+    }
+    nodes.push({ id: `text-${index}`, kind: 'text', bounds: text.bounds, labels: [text.label] });
+  });
+
+  if (nodes.length === 0) return null;
+
+  // Number the nodes in reading order, so ids don't depend on drawing order
+  const ordered = [...nodes].sort((a, b) =>
+    (a.bounds?.minY ?? 0) - (b.bounds?.minY ?? 0) || (a.bounds?.minX ?? 0) - (b.bounds?.minX ?? 0));
+  const names = new Map(ordered.map((node, index) => [node.id, `n${index + 1}`]));
+
+  // Lay out along the axis the drawing is spread over most
+  const boxes = ordered.filter(node => node.bounds).map(node => node.bounds!);
+  const spanX = boxes.length ? Math.max(...boxes.map(b => b.maxX)) - Math.min(...boxes.map(b => b.minX)) : 0;
+  const spanY = boxes.length ? Math.max(...boxes.map(b => b.maxY)) - Math.min(...boxes.map(b => b.minY)) : 0;
+
+  const lines = [`flowchart ${spanX > spanY ? 'LR' : 'TD'}`];
+  for (const node of ordered) {
+    const [open, close] = NODE_SHAPES[node.kind] ?? NODE_SHAPES.rectangle;
+    lines.push(`    ${names.get(node.id)}${open}${quote(node.labels.join(' ') || ' ')}${close}`);
+  }
+  for (const edge of edges) {
+    // A connector with only a start arrow points backwards
+    const reversed = edge.arrowFrom && !edge.arrowTo;
+    const from = names.get(reversed ? edge.to : edge.from);
+    const to = names.get(reversed ? edge.from : edge.to);
+    const link = edge.arrowFrom && edge.arrowTo ? '<-->' : edge.arrowFrom || edge.arrowTo ? '-->' : '---';
+    const label = edge.labels.length > 0 ? `|${quote(edge.labels.join(' '))}|` : '';
+    lines.push(`    ${from} ${link}${label} ${to}`);
+  }
+  return lines.join('\n');
+}
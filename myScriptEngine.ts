@@ -0,0 +1,103 @@
+import { Setting } from 'obsidian';
+import OOCRPlugin from './main';
+import { MyScriptService, RecognizeOptions, Stroke } from './myScriptService';
+import { RecognitionEngine, EngineCapabilities } from './recognitionEngine';
+import { jiixToMermaid } from './mermaidDiagram';
+import { RecognitionResult } from './recognitionResult';
+
+/**
+ * MyScript Cloud: recognizes stroke data (and images), including math and diagrams
+ */
+export class MyScriptEngine implements RecognitionEngine {
+  readonly id = 'myscript';
+  readonly name = 'MyScript';
+  readonly label = 'MyScript Cloud (Better handwriting)';
+  readonly capabilities: EngineCapabilities = { strokes: true, bitmaps: true, math: true, diagrams: true };
+
+  private plugin: OOCRPlugin;
+  private service: MyScriptService;
+
+  constructor(plugin: OOCRPlugin, service: MyScriptService) {
+    this.plugin = plugin;
+    this.service = service;
+  }
+
+  isReady(): boolean {
+    return this.service.isConfigured();
+  }
+
+  language(): string {
+    return this.plugin.settings.myScriptLanguage;
+  }
+
+  recognizeStrokes(strokes: Stroke[], options: RecognizeOptions): Promise<RecognitionResult> {
+    return this.service.recognizeStrokesDetailed(strokes, options);
+  }
+
+  recognizeBitmap(image: string | ArrayBuffer, mimeType: string, options: RecognizeOptions): Promise<RecognitionResult> {
+    return this.service.recognizeBitmapDetailed(image, mimeType, options);
+  }
+
+  recognizeMath(strokes: Stroke[], options: RecognizeOptions): Promise<string> {
+    return this.service.recognizeMath(strokes, options);
+  }
+
+  async recognizeDiagram(strokes: Stroke[], options: RecognizeOptions): Promise<string | null> {
+    return jiixToMermaid(await this.service.recognizeDiagram(strokes, options));
+  }
+
+  displaySettings(containerEl: HTMLElement) {
+    containerEl.createEl('h3', { text: 'MyScript Settings' });
+
+    const desc = document.createDocumentFragment();
+    desc.appendText('Get your API key from ');
+    const link = desc.createEl('a', {
+      href: 'https://developer.myscript.com/getting-started/web',
+      text: 'developer.myscript.com',
+    });
+    link.setAttr('target', '_blank');
+    desc.appendText('. Free tier includes 2000 requests/month. HMAC authentication is disabled on the MyScript dashboard for simplicity.');
+    containerEl.createEl('p', { text: '' }).append(desc);
+
+    new Setting(containerEl)
+      .setName('Application Key')
+      .setDesc('Your MyScript Cloud application key')
+      .addText(text => text
+        .setPlaceholder('xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx')
+        .setValue(this.plugin.settings.myScriptApplicationKey)
+        .onChange(async value => {
+          this.plugin.settings.myScriptApplicationKey = value;
+          await this.plugin.saveSettings();
+          this.plugin.updateMyScriptConfig();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Language')
+      .setDesc('Language for recognition (e.g., en_US, fr_FR, de_DE)')
+      .addText(text => text
+        .setPlaceholder('en_US')
+        .setValue(this.plugin.settings.myScriptLanguage)
+        .onChange(async value => {
+          this.plugin.settings.myScriptLanguage = value || 'en_US';
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Status indicator
+    const statusDiv = containerEl.createEl('div', { cls: 'myscript-status', });
+    statusDiv.style.padding = '12px';
+    statusDiv.style.marginTop = '16px';
+    statusDiv.style.borderRadius = '4px';
+
+    if (this.isReady()) {
+      statusDiv.style.backgroundColor = 'var(--background-modifier-success)';
+      statusDiv.style.color = 'var(--text-on-accent)';
+      statusDiv.textContent = 'MyScript is configured and ready';
+    } else {
+      statusDiv.style.backgroundColor = 'var(--background-modifier-error)';
+      statusDiv.style.color = 'var(--text-on-accent)';
+      statusDiv.textContent = 'MyScript is not configured. Please add your API key.';
+    }
+  }
+}
@@ -1,10 +1,17 @@
-import { App, Plugin, Notice, requestUrl, Platform } from 'obsidian';
+import { App, Plugin, Notice, requestUrl, RequestUrlResponse, Platform } from 'obsidian';
+import { RecognitionResult, jiixResult, textToWords } from './recognitionResult';
 
 export interface MyScriptOptions {
   applicationKey: string;
   language?: string;
 }
 
+export interface RecognizeOptions {
+  silent?: boolean; // Suppress progress/error notices (e.g. for background recognition)
+}
+
+export type ContentType = 'Text' | 'Math' | 'Diagram';
+
 export interface StrokePoint {
   x: number;
   y: number;
@@ -80,7 +87,7 @@ export class MyScriptService {
    * JIIX (JSON Ink) preserves stroke order, timing, and pressure
    * This is the key advantage over bitmap OCR!
    */
-  private strokesToJIIX(strokes: Stroke[], language: string = 'en_US'): object {
+  private strokesToJIIX(strokes: Stroke[], language: string = 'en_US', contentType: ContentType = 'Text'): object {
     const jiixStrokes = strokes.map((stroke, strokeIndex) => ({
       id: `stroke-${strokeIndex}`,
       pointerType: 'PEN',
@@ -93,6 +100,41 @@ export class MyScriptService {
       }),
     }));
 
+    // Diagrams are read from the JIIX element boxes, so those are exported
+    if (contentType === 'Diagram') {
+      return {
+        configuration: {
+          lang: language,
+          export: {
+            jiix: {
+              'bounding-box': true,
+              strokes: false,
+              text: {
+                chars: false,
+                words: false,
+              },
+            },
+          },
+        },
+        contentType,
+        strokeGroups: [{ strokes: jiixStrokes }],
+      };
+    }
+
+    // Math is only wanted as LaTeX; the solver would append results to the expression
+    if (contentType === 'Math') {
+      return {
+        configuration: {
+          lang: language,
+          math: {
+            solver: { enable: false },
+          },
+        },
+        contentType,
+        strokeGroups: [{ strokes: jiixStrokes }],
+      };
+    }
+
     // MyScript Cloud API v4 batch format requires configuration object
     return {
       configuration: {
@@ -118,7 +160,14 @@ export class MyScriptService {
    * This preserves stroke order, timing, and pressure information
    * Result: Much better handwriting recognition than bitmap OCR
    */
-  async recognizeStrokes(strokes: Stroke[]): Promise<string> {
+  async recognizeStrokes(strokes: Stroke[], options: RecognizeOptions = {}): Promise<string> {
+    return (await this.recognizeStrokesDetailed(strokes, options)).text;
+  }
+
+  /**
+   * Like recognizeStrokes, with the recognized words and their candidates
+   */
+  async recognizeStrokesDetailed(strokes: Stroke[], options: RecognizeOptions = {}): Promise<RecognitionResult> {
     const debugInfo: Record<string, unknown> = {
       stage: 'start',
       strokeCount: strokes.length
@@ -140,11 +189,13 @@ export class MyScriptService {
     debugInfo.appKeyLength = appKey.length;
 
     if (strokes.length === 0) {
-      return '';
+      return { text: '', words: [] };
     }
 
     try {
-      new Notice('Recognizing handwriting with MyScript (stroke data)...');
+      if (!options.silent) {
+        new Notice('Recognizing handwriting with MyScript (stroke data)...');
+      }
       console.log('[OOCR] Sending', strokes.length, 'strokes to MyScript Cloud...');
 
       const language = this.options?.language || 'en_US';
@@ -213,12 +264,12 @@ export class MyScriptService {
         // Format: {"text": {"label": "recognized text", "words": [...]}}
         if (result.label) {
           console.log('[OOCR] MyScript result (top-level label):', result.label);
-          return result.label;
+          return jiixResult(result, result.label);
         }
         // Format: {"text": {"label": "recognized text", "words": [...]}}
         if (result.text?.label) {
           console.log('[OOCR] MyScript result (result.text.label):', result.text.label);
-          return result.text.label;
+          return jiixResult(result, result.text.label);
         }
         // Alternative formats
         if (result.result?.textLines) {
@@ -226,18 +277,18 @@ export class MyScriptService {
             .map((line: any) => line.label || '')
             .join('\n');
           console.log('[OOCR] MyScript result (textLines):', text);
-          return text;
+          return { text, words: textToWords(text) };
         }
         // Format with words array
         if (result.words && Array.isArray(result.words) && result.words.length > 0) {
           const text = result.words.map((w: any) => w.label || '').join(' ');
           console.log('[OOCR] MyScript result (from words):', text);
-          return text;
+          return jiixResult(result, text);
         }
       }
 
       console.warn('Unexpected MyScript response format:', result);
-      return '';
+      return { text: '', words: [] };
     } catch (error) {
       debugInfo.stage = 'error';
       debugInfo.error = error instanceof Error ? {
@@ -248,19 +299,118 @@ export class MyScriptService {
       await this.writeDebugFile('myscript_error', debugInfo);
       console.error('[OOCR] MyScript stroke recognition failed:', error);
       const errorMsg = error instanceof Error ? error.message : String(error);
-      new Notice(`MyScript recognition failed: ${errorMsg}`);
+      if (!options.silent) {
+        new Notice(`MyScript recognition failed: ${errorMsg}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send strokes with a non-text content type and return the raw response.
+   * Failures are reported with a notice (unless silent) and rethrown.
+   */
+  private async recognizeContent(
+    strokes: Stroke[],
+    contentType: ContentType,
+    accept: string,
+    options: RecognizeOptions
+  ): Promise<RequestUrlResponse> {
+    if (!this.isConfigured()) {
+      throw new Error('MyScript not configured. Please set API key in settings.');
+    }
+
+    const appKey = this.options?.applicationKey;
+    if (!appKey) {
+      throw new Error('MyScript API key not available');
+    }
+
+    try {
+      if (!options.silent) {
+        new Notice(`Recognizing ${contentType.toLowerCase()} with MyScript...`);
+      }
+
+      const jiix = this.strokesToJIIX(strokes, this.options?.language || 'en_US', contentType);
+      await this.writeDebugFile(`myscript_${contentType.toLowerCase()}_request`, jiix);
+
+      let response;
+      try {
+        response = await requestUrl({
+          url: `https://cloud.myscript.com/api/v4.0/iink/batch`,
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': accept,
+            'applicationKey': appKey,
+          },
+          body: JSON.stringify(jiix),
+        });
+      } catch (requestError: any) {
+        // requestUrl throws for non-2xx status
+        throw new Error(`MyScript request failed: ${requestError.status} ${requestError.text || requestError.message}`);
+      }
+
+      if (response.status !== 200) {
+        throw new Error(`MyScript API error: ${response.status} ${response.text}`);
+      }
+      return response;
+    } catch (error) {
+      console.error(`[OOCR] MyScript ${contentType} recognition failed:`, error);
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      if (!options.silent) {
+        new Notice(`MyScript recognition failed: ${errorMsg}`);
+      }
       throw error;
     }
   }
 
+  /**
+   * Recognize handwritten math from stroke data and return it as LaTeX
+   * (without $ delimiters). Uses the Math content type of the batch API.
+   */
+  async recognizeMath(strokes: Stroke[], options: RecognizeOptions = {}): Promise<string> {
+    if (strokes.length === 0) {
+      return '';
+    }
+    const response = await this.recognizeContent(strokes, 'Math', 'application/x-latex', options);
+    const latex = (response.text ?? '').trim();
+    console.log('[OOCR] MyScript math result:', latex);
+    return latex;
+  }
+
+  /**
+   * Recognize a hand-drawn diagram (shapes, connectors and their text)
+   * from stroke data. Returns the JIIX diagram, or null without strokes.
+   */
+  async recognizeDiagram(strokes: Stroke[], options: RecognizeOptions = {}): Promise<any> {
+    if (strokes.length === 0) {
+      return null;
+    }
+    const response = await this.recognizeContent(strokes, 'Diagram', 'application/vnd.myscript.jiix', options);
+    console.log('[OOCR] MyScript diagram result:', response.json);
+    return response.json;
+  }
+
   /**
    * Fallback: Recognize from bitmap (for compatibility)
    * MyScript also supports bitmap input via REST API
    */
   async recognizeBitmap(
     imageData: string | ArrayBuffer,
-    mimeType: string = 'image/png'
+    mimeType: string = 'image/png',
+    options: RecognizeOptions = {}
   ): Promise<string> {
+    return (await this.recognizeBitmapDetailed(imageData, mimeType, options)).text;
+  }
+
+  /**
+   * Like recognizeBitmap, with the recognized words and their candidates
+   */
+  async recognizeBitmapDetailed(
+    imageData: string | ArrayBuffer,
+    mimeType: string = 'image/png',
+    options: RecognizeOptions = {}
+  ): Promise<RecognitionResult> {
     if (!this.isConfigured()) {
       throw new Error('MyScript not configured. Please set API key in settings.');
     }
@@ -271,7 +421,9 @@ export class MyScriptService {
     }
 
     try {
-      new Notice('Recognizing with MyScript (bitmap mode)...');
+      if (!options.silent) {
+        new Notice('Recognizing with MyScript (bitmap mode)...');
+      }
       let arrayBuffer: ArrayBuffer;
 
       if (typeof imageData === 'string' && imageData.startsWith('data:')) {
@@ -330,14 +482,16 @@ export class MyScriptService {
       const result = response.json;
       if (result && typeof result === 'object') {
         if (result.text?.label) {
-          return result.text.label;
+          return jiixResult(result, result.text.label);
         }
       }
-      return '';
+      return { text: '', words: [] };
     } catch (error) {
       console.error('MyScript bitmap recognition failed:', error);
       const errorMsg = error instanceof Error ? error.message : String(error);
-      new Notice(`MyScript recognition failed: ${errorMsg}`);
+      if (!options.silent) {
+        new Notice(`MyScript recognition failed: ${errorMsg}`);
+      }
       throw error;
     }
   }
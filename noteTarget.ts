@@ -0,0 +1,44 @@
+export type InsertTarget = 'cursor' | 'inbox' | 'daily';
+
+export const INSERT_TARGETS: Record<InsertTarget, string> = {
+  cursor: 'At cursor',
+  inbox: 'Inbox note',
+  daily: 'Daily note',
+};
+
+export const DEFAULT_CAPTURE_TEMPLATE = '#### {{time}}\n{{text}}';
+
+/**
+ * Replace {{name}} placeholders. Unknown placeholders are left as they are,
+ * so a typo shows up in the note instead of silently vanishing.
+ */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match);
+}
+
+/**
+ * Note contents with an entry added at the end, on a line of its own
+ */
+export function appendToText(existing: string, entry: string): string {
+  if (!existing.trim()) return entry + '\n';
+  return existing.replace(/\n*$/, '\n') + entry + '\n';
+}
+
+/**
+ * Options of the core Daily notes plugin (as stored in its settings)
+ */
+export interface DailyNoteOptions {
+  folder?: string;
+  format?: string;  // Moment format of the note name
+}
+
+/**
+ * Path of today's daily note, named like the Daily notes plugin does
+ */
+export function dailyNotePath(options: DailyNoteOptions, formatDate: (format: string) => string): string {
+  const format = options.format?.trim() || 'YYYY-MM-DD';
+  const folder = (options.folder ?? '').trim().replace(/\/+$/, '');
+  const name = `${formatDate(format)}.md`;
+  return folder ? `${folder}/${name}` : name;
+}
@@ -1,5 +1,6 @@
 import { createWorker, PSM, OEM } from 'tesseract.js';
 import { Notice, App } from 'obsidian';
+import { RecognitionResult, tesseractWords } from './recognitionResult';
 
 export interface OcrOptions {
     handwriting?: boolean;
@@ -143,7 +144,12 @@ export class OcrService {
         }
     }
 
-    async recognize(image: string | Buffer, options: OcrOptions = {}): Promise<string> {
+    /**
+     * Recognize an image. Besides the text, the result lists each word with
+     * Tesseract's confidence, its bounding box in the image and the
+     * alternatives from the choice iterator.
+     */
+    async recognize(image: string | Buffer, options: OcrOptions = {}): Promise<RecognitionResult> {
         const { handwriting = true, language = 'eng' } = options; // Default to handwriting mode
 
         // Initialize with appropriate mode
@@ -167,9 +173,10 @@ export class OcrService {
                 input = bytes;
             }
 
-            const { data: { text } } = await this.worker!.recognize(input);
+            const { data } = await this.worker!.recognize(input);
+            const text = data.text;
             console.log("OCR Result text length:", text ? text.length : 0);
-            return text;
+            return { text, words: tesseractWords(data.lines ?? []) };
         } catch (error) {
             console.error("OCR recognition failed:", error);
             await this.logErrorToFile(error, "recognize");
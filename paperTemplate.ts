@@ -0,0 +1,96 @@
+import { Stroke } from './myScriptService';
+import { Bounds, strokesBounds } from './strokeGeometry';
+
+export type PaperTemplate = 'blank' | 'lined' | 'grid' | 'dotted';
+
+export const PAPER_TEMPLATES: Record<PaperTemplate, string> = {
+  blank: 'Blank',
+  lined: 'Lined',
+  grid: 'Grid',
+  dotted: 'Dot grid',
+};
+
+const PAPER_LINE_COLOR = '#c8d3e0';
+
+/**
+ * Draw the paper pattern covering the visible world area.
+ * Lines sit at multiples of the spacing, so they stay fixed to the page
+ * while panning and zooming.
+ */
+export function drawPaperTemplate(
+  ctx: CanvasRenderingContext2D,
+  template: PaperTemplate,
+  spacing: number,
+  visible: Bounds,
+  scale: number
+): void {
+  if (template === 'blank' || spacing <= 0) return;
+
+  const firstCol = Math.max(1, Math.floor(visible.minX / spacing));
+  const lastCol = Math.ceil(visible.maxX / spacing);
+  const firstRow = Math.max(1, Math.floor(visible.minY / spacing));
+  const lastRow = Math.ceil(visible.maxY / spacing);
+
+  ctx.save();
+  ctx.strokeStyle = PAPER_LINE_COLOR;
+  ctx.fillStyle = PAPER_LINE_COLOR;
+  ctx.lineWidth = 1 / scale;  // Hairline at any zoom
+
+  if (template === 'dotted') {
+    const radius = 1.5 / scale;
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let col = firstCol; col <= lastCol; col++) {
+        ctx.beginPath();
+        ctx.arc(col * spacing, row * spacing, radius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+    ctx.restore();
+    return;
+  }
+
+  ctx.beginPath();
+  for (let row = firstRow; row <= lastRow; row++) {
+    ctx.moveTo(visible.minX, row * spacing);
+    ctx.lineTo(visible.maxX, row * spacing);
+  }
+  if (template === 'grid') {
+    for (let col = firstCol; col <= lastCol; col++) {
+      ctx.moveTo(col * spacing, visible.minY);
+      ctx.lineTo(col * spacing, visible.maxY);
+    }
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Index of the ruled line a stroke is written on. Line n is the band above
+ * the rule at y = (n + 1) * spacing; the stroke's vertical centre decides,
+ * so descenders and ascenders don't push it onto a neighbouring line.
+ */
+export function ruledLineIndex(stroke: Stroke, spacing: number): number {
+  const bounds = strokesBounds([stroke]);
+  if (!bounds) return 0;
+  return Math.floor((bounds.minY + bounds.maxY) / 2 / spacing);
+}
+
+/**
+ * Split strokes into text lines using the ruled lines as baselines.
+ * Lines are returned top to bottom, strokes within a line in their original order.
+ */
+export function groupStrokesByRuledLine<T extends Stroke>(strokes: T[], spacing: number): T[][] {
+  const lines = new Map<number, T[]>();
+  for (const stroke of strokes) {
+    const index = ruledLineIndex(stroke, spacing);
+    const line = lines.get(index);
+    if (line) {
+      line.push(stroke);
+    } else {
+      lines.set(index, [stroke]);
+    }
+  }
+  return Array.from(lines.keys())
+    .sort((a, b) => a - b)
+    .map(index => lines.get(index)!);
+}
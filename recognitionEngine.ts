@@ -0,0 +1,148 @@
+import { RecognizeOptions, Stroke } from './myScriptService';
+import { RecognitionResult } from './recognitionResult';
+
+/**
+ * What an engine can take and produce; callers check these instead of engine ids
+ */
+export interface EngineCapabilities {
+  strokes: boolean;  // Accepts vector stroke data
+  bitmaps: boolean;  // Accepts images
+  math: boolean;  // Recognizes math as LaTeX
+  diagrams: boolean;  // Recognizes diagrams as Mermaid flowcharts
+}
+
+/**
+ * A recognition engine. Only the methods matching its capabilities need to exist.
+ * They throw on failure; callers tell the user.
+ */
+export interface RecognitionEngine {
+  id: string;  // Stored in the settings and ink file metadata
+  name: string;  // Short name for notices and the toolbar
+  label: string;  // Entry in the engine dropdown
+  capabilities: EngineCapabilities;
+
+  isReady(): boolean;  // Configured and usable
+  language(): string;
+
+  recognizeStrokes?(strokes: Stroke[], options: RecognizeOptions): Promise<RecognitionResult>;
+  recognizeBitmap?(image: string | ArrayBuffer, mimeType: string, options: RecognizeOptions): Promise<RecognitionResult>;
+  recognizeMath?(strokes: Stroke[], options: RecognizeOptions): Promise<string>;  // LaTeX
+  recognizeDiagram?(strokes: Stroke[], options: RecognizeOptions): Promise<string | null>;  // Mermaid flowchart, null if none was found
+
+  /**
+   * Add the engine's own settings below the engine dropdown.
+   * refresh redraws the settings tab.
+   */
+  displaySettings?(containerEl: HTMLElement, refresh: () => void): void;
+}
+
+/**
+ * Ink to recognize, in the forms an engine may want. Built on demand,
+ * since only one of them is usually needed.
+ */
+export interface InkInput {
+  strokes: () => Stroke[];
+  bitmap: () => string;  // PNG data URL
+}
+
+export interface RoutingOptions {
+  useStrokes: boolean;  // Prefer stroke data when the engine takes both
+  fallbackToBitmap: boolean;  // Retry with the bitmap if stroke recognition fails
+}
+
+export class EngineRegistry {
+  private engines = new Map<string, RecognitionEngine>();
+
+  register(engine: RecognitionEngine): void {
+    if (this.engines.has(engine.id)) {
+      throw new Error(`Engine "${engine.id}" is already registered`);
+    }
+    this.engines.set(engine.id, engine);
+  }
+
+  get(id: string): RecognitionEngine | undefined {
+    return this.engines.get(id);
+  }
+
+  list(): RecognitionEngine[] {
+    return Array.from(this.engines.values());
+  }
+
+  /**
+   * Dropdown options, in registration order
+   */
+  options(): Record<string, string> {
+    const options: Record<string, string> = {};
+    for (const engine of this.engines.values()) {
+      options[engine.id] = engine.label;
+    }
+    return options;
+  }
+
+  /**
+   * Names of the engines with a capability, for labels ("A or B")
+   */
+  names(capability: keyof EngineCapabilities): string {
+    const names = this.list().filter(engine => engine.capabilities[capability]).map(engine => engine.name);
+    return names.length > 0 ? names.join(' or ') : 'no installed engine';
+  }
+
+  /**
+   * The given engine if it is ready and has the capability, else the
+   * first registered one that does
+   */
+  pick(id: string, capability: keyof EngineCapabilities): RecognitionEngine | null {
+    const usable = (engine: RecognitionEngine | undefined) => !!engine && engine.isReady() && engine.capabilities[capability];
+    const preferred = this.engines.get(id);
+    if (usable(preferred)) return preferred!;
+    return this.list().find(usable) ?? null;
+  }
+
+  /**
+   * Recognize an image file with the given engine, or another one that can
+   * if it is not set up for images
+   */
+  async recognizeImage(id: string, image: ArrayBuffer, mimeType: string, options: RecognizeOptions = {}): Promise<RecognitionResult> {
+    const engine = this.pick(id, 'bitmaps');
+    if (!engine?.recognizeBitmap) {
+      throw new Error('No configured engine can read images');
+    }
+    return engine.recognizeBitmap(image, mimeType, options);
+  }
+}
+
+/**
+ * Recognize ink with an engine: strokes where the engine takes them (and
+ * there are any), otherwise, or if that fails and fallback is on, the bitmap
+ */
+export async function recognizeInk(
+  engine: RecognitionEngine,
+  input: InkInput,
+  options: RecognizeOptions,
+  routing: RoutingOptions
+): Promise<RecognitionResult> {
+  if (!engine.isReady()) {
+    throw new Error(`${engine.name} is not configured. Please check the settings.`);
+  }
+
+  const canUseBitmap = engine.capabilities.bitmaps && !!engine.recognizeBitmap;
+  if (engine.capabilities.strokes && engine.recognizeStrokes && (routing.useStrokes || !canUseBitmap)) {
+    const strokes = input.strokes();
+    if (strokes.length > 0) {
+      try {
+        console.log(`Sending ${strokes.length} strokes to ${engine.name}...`);
+        return await engine.recognizeStrokes(strokes, options);
+      } catch (error) {
+        if (!routing.fallbackToBitmap || !canUseBitmap) throw error;
+        console.warn('Stroke recognition failed, falling back to bitmap:', error);
+      }
+    } else if (!canUseBitmap) {
+      return { text: '', words: [] };
+    }
+  }
+
+  if (!canUseBitmap) {
+    throw new Error(`${engine.name} cannot recognize ink`);
+  }
+  return engine.recognizeBitmap!(input.bitmap(), 'image/png', options);
+}
@@ -0,0 +1,155 @@
+import { Bounds } from './strokeGeometry';
+
+/**
+ * One token of recognized text: a word, or the whitespace between words.
+ * Keeping whitespace as tokens means the text can be rebuilt exactly
+ * (line breaks, punctuation without spaces) after words are changed.
+ */
+export interface RecognizedWord {
+  label: string;
+  candidates: string[];  // Alternatives from the engine, best first (empty for whitespace)
+  confidence?: number;  // 0-100, if the engine reports it
+  bounds?: Bounds;  // Position in the recognized image (pixels), if the engine reports it
+}
+
+export interface RecognitionResult {
+  text: string;
+  words: RecognizedWord[];
+}
+
+export function isWordToken(word: RecognizedWord): boolean {
+  return /\S/.test(word.label);
+}
+
+export function wordsToText(words: RecognizedWord[]): string {
+  return words.map(word => word.label).join('');
+}
+
+/**
+ * Whether the engine was less sure of a word than the threshold (0-100).
+ * Words without a confidence never count as low.
+ */
+export function isLowConfidence(word: RecognizedWord, threshold: number): boolean {
+  return isWordToken(word) && word.confidence !== undefined && word.confidence < threshold;
+}
+
+export function hasLowConfidence(words: RecognizedWord[], threshold: number): boolean {
+  return words.some(word => isLowConfidence(word, threshold));
+}
+
+/**
+ * Wrap low-confidence words in ==highlight== marks, so they stand out for proofreading
+ */
+export function highlightLowConfidence(words: RecognizedWord[], threshold: number): RecognizedWord[] {
+  return words.map(word => isLowConfidence(word, threshold)
+    ? { ...word, label: `==${word.label}==` }
+    : word);
+}
+
+/**
+ * Candidate list with the label first and without duplicates
+ */
+function candidateList(label: string, alternatives: string[]): string[] {
+  const candidates = [label];
+  for (const alternative of alternatives) {
+    if (alternative && !candidates.includes(alternative)) {
+      candidates.push(alternative);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Tokens for plain text, when the engine gives no word details
+ */
+export function textToWords(text: string): RecognizedWord[] {
+  return text
+    .split(/(\s+)/)
+    .filter(part => part.length > 0)
+    .map(part => ({ label: part, candidates: /\S/.test(part) ? [part] : [] }));
+}
+
+/**
+ * Words of a MyScript JIIX text export. JIIX lists whitespace and line
+ * breaks as words of their own, and alternatives in "candidates".
+ */
+export function parseJiixWords(jiix: any): RecognizedWord[] | null {
+  const words = Array.isArray(jiix?.words) ? jiix.words : Array.isArray(jiix?.text?.words) ? jiix.text.words : null;
+  if (!words) return null;
+
+  return words
+    .filter((word: any) => typeof word?.label === 'string' && word.label.length > 0)
+    .map((word: any): RecognizedWord => {
+      const label: string = word.label;
+      if (!/\S/.test(label)) {
+        return { label, candidates: [] };
+      }
+      const alternatives = Array.isArray(word.candidates)
+        ? word.candidates.filter((candidate: unknown) => typeof candidate === 'string')
+        : [];
+      return { label, candidates: candidateList(label, alternatives) };
+    });
+}
+
+/**
+ * Result from a JIIX response, falling back to the plain label
+ */
+export function jiixResult(jiix: any, text: string): RecognitionResult {
+  const words = parseJiixWords(jiix);
+  if (words && wordsToText(words).trim() === text.trim()) {
+    return { text, words };
+  }
+  return { text, words: textToWords(text) };
+}
+
+interface TesseractChoice {
+  text: string;
+}
+
+interface TesseractBbox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface TesseractWord {
+  text: string;
+  confidence?: number;
+  bbox?: TesseractBbox;
+  choices?: TesseractChoice[];
+}
+
+interface TesseractLine {
+  words: TesseractWord[];
+}
+
+/**
+ * Words of a Tesseract result, with their confidence, bounding box and
+ * the alternatives from its choice iterator
+ */
+export function tesseractWords(lines: TesseractLine[]): RecognizedWord[] {
+  const words: RecognizedWord[] = [];
+  lines.forEach((line, lineIndex) => {
+    if (lineIndex > 0) {
+      words.push({ label: '\n', candidates: [] });
+    }
+    line.words.forEach((word, wordIndex) => {
+      if (wordIndex > 0) {
+        words.push({ label: ' ', candidates: [] });
+      }
+      const recognized: RecognizedWord = {
+        label: word.text,
+        candidates: candidateList(word.text, (word.choices ?? []).map(choice => choice.text)),
+      };
+      if (typeof word.confidence === 'number') {
+        recognized.confidence = word.confidence;
+      }
+      if (word.bbox) {
+        recognized.bounds = { minX: word.bbox.x0, minY: word.bbox.y0, maxX: word.bbox.x1, maxY: word.bbox.y1 };
+      }
+      words.push(recognized);
+    });
+  });
+  return words;
+}
@@ -0,0 +1,168 @@
+import { App, Modal, Menu, ButtonComponent } from 'obsidian';
+import { RecognitionResult, RecognizedWord, isWordToken, isLowConfidence, wordsToText } from './recognitionResult';
+
+export type OutputAction = 'copy' | 'insert';
+
+export interface ReviewOutcome {
+  texts: string[];  // Reviewed text of each page
+  words: RecognizedWord[][];  // Reviewed words of each page; corrected words lose their confidence
+  action: OutputAction;
+}
+
+/**
+ * Shows recognized text word by word before it is copied or inserted.
+ * Tapping a word offers the engine's alternatives or editing it in place,
+ * which is much faster than retyping a misread handwritten word.
+ */
+export class ReviewModal extends Modal {
+  private pages: RecognizedWord[][];
+  private action: OutputAction;
+  private confidenceThreshold: number;
+  private outcome: ReviewOutcome | null = null;
+  private resolve: ((outcome: ReviewOutcome | null) => void) | null = null;
+
+  constructor(app: App, results: RecognitionResult[], action: OutputAction, confidenceThreshold: number = 0) {
+    super(app);
+    // Own copies, so edits never touch the cached results
+    this.pages = results.map(result => result.words.map(word => ({ ...word })));
+    this.action = action;
+    this.confidenceThreshold = confidenceThreshold;
+  }
+
+  /**
+   * Open the modal; resolves with the reviewed text, or null if cancelled
+   */
+  review(): Promise<ReviewOutcome | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText('Review recognized text');
+    contentEl.createEl('p', {
+      text: 'Tap a word to pick an alternative or edit it.',
+      cls: 'setting-item-description',
+    });
+
+    this.pages.forEach((words, pageIndex) => {
+      if (pageIndex > 0) {
+        contentEl.createEl('hr');
+      }
+      const pageEl = contentEl.createDiv({ cls: 'oocr-review-text' });
+      words.forEach(word => this.renderWord(pageEl, word));
+    });
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+    new ButtonComponent(buttons)
+      .setButtonText('Cancel')
+      .onClick(() => this.close());
+    const copy = new ButtonComponent(buttons)
+      .setButtonText('Copy')
+      .onClick(() => this.finish('copy'));
+    const insert = new ButtonComponent(buttons)
+      .setButtonText('Insert')
+      .onClick(() => this.finish('insert'));
+    (this.action === 'insert' ? insert : copy).setCta();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.resolve?.(this.outcome);
+    this.resolve = null;
+  }
+
+  finish(action: OutputAction) {
+    this.outcome = {
+      texts: this.pages.map(words => wordsToText(words)),
+      words: this.pages,
+      action,
+    };
+    this.close();
+  }
+
+  renderWord(parent: HTMLElement, word: RecognizedWord) {
+    if (!isWordToken(word)) {
+      parent.appendText(word.label);
+      return;
+    }
+
+    const el = parent.createSpan({ cls: 'oocr-review-word', text: word.label });
+    if (word.candidates.length > 1) {
+      el.addClass('has-candidates');
+    }
+    if (isLowConfidence(word, this.confidenceThreshold)) {
+      el.addClass('is-uncertain');
+    }
+
+    el.addEventListener('click', (evt: MouseEvent) => {
+      if (el.isContentEditable) return;
+      const menu = new Menu();
+      for (const candidate of word.candidates) {
+        menu.addItem(item => item
+          .setTitle(candidate)
+          .setChecked(candidate === word.label)
+          .onClick(() => {
+            this.setWord(el, word, candidate);
+          }));
+      }
+      menu.addSeparator();
+      menu.addItem(item => item
+        .setTitle('Edit…')
+        .setIcon('pencil')
+        .onClick(() => this.editWord(el, word)));
+      menu.showAtMouseEvent(evt);
+    });
+  }
+
+  /**
+   * Apply a correction. The word counts as checked, so it is no longer marked as uncertain.
+   */
+  setWord(el: HTMLElement, word: RecognizedWord, label: string) {
+    word.label = label;
+    delete word.confidence;
+    el.setText(label);
+    el.removeClass('is-uncertain');
+  }
+
+  /**
+   * Type over a word in place; Enter or leaving the word keeps the change, Escape undoes it
+   */
+  editWord(el: HTMLElement, word: RecognizedWord) {
+    const original = word.label;
+    el.contentEditable = 'true';
+    el.addClass('is-editing');
+    el.focus();
+    window.getSelection()?.selectAllChildren(el);
+
+    const done = (keep: boolean) => {
+      el.contentEditable = 'false';
+      el.removeClass('is-editing');
+      el.removeEventListener('keydown', onKey);
+      el.removeEventListener('blur', onBlur);
+      const label = (el.textContent ?? '').trim();
+      if (keep && label && label !== original) {
+        this.setWord(el, word, label);
+      } else {
+        el.setText(original);
+      }
+    };
+    const onKey = (evt: KeyboardEvent) => {
+      if (evt.key === 'Enter') {
+        evt.preventDefault();
+        el.blur();
+      } else if (evt.key === 'Escape') {
+        // Keep the modal open; only cancel this edit
+        evt.preventDefault();
+        evt.stopPropagation();
+        done(false);
+      }
+    };
+    const onBlur = () => done(true);
+    el.addEventListener('keydown', onKey);
+    el.addEventListener('blur', onBlur);
+  }
+}
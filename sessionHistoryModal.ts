@@ -0,0 +1,34 @@
+import { App, SuggestModal } from 'obsidian';
+import { InkSession, describeSession } from './sessionStore';
+
+/**
+ * Pick a previous canvas session to restore
+ */
+export class SessionHistoryModal extends SuggestModal<InkSession> {
+  private sessions: InkSession[];
+  private onChoose: (session: InkSession) => void;
+
+  constructor(app: App, sessions: InkSession[], onChoose: (session: InkSession) => void) {
+    super(app);
+    this.sessions = sessions;
+    this.onChoose = onChoose;
+    this.setPlaceholder('Restore a previous handwriting session');
+    this.emptyStateText = 'No previous sessions';
+  }
+
+  getSuggestions(query: string): InkSession[] {
+    const lower = query.toLowerCase();
+    return this.sessions.filter(session =>
+      `${new Date(session.savedAt).toLocaleString()} ${describeSession(session)}`.toLowerCase().includes(lower)
+    );
+  }
+
+  renderSuggestion(session: InkSession, el: HTMLElement) {
+    el.createEl('div', { text: new Date(session.savedAt).toLocaleString() });
+    el.createEl('small', { text: describeSession(session) });
+  }
+
+  onChooseSuggestion(session: InkSession) {
+    this.onChoose(session);
+  }
+}
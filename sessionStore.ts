@@ -0,0 +1,132 @@
+import { App } from 'obsidian';
+import { InkStroke } from './strokeRenderer';
+import { parseInkStrokes } from './inkFile';
+
+/**
+ * Saved contents of the handwriting canvas
+ */
+export interface InkSession {
+  savedAt: number;  // Epoch ms of the last change
+  pageIndex: number;  // Page that was showing
+  pages: InkStroke[][];  // Strokes of each page, in page order
+}
+
+export interface SessionData {
+  current: InkSession | null;  // Restored when the canvas opens
+  history: InkSession[];  // Previous sessions, newest first
+}
+
+export function sessionStrokeCount(session: InkSession): number {
+  return session.pages.reduce((count, strokes) => count + strokes.length, 0);
+}
+
+export function isEmptySession(session: InkSession): boolean {
+  return sessionStrokeCount(session) === 0;
+}
+
+/**
+ * Short summary for lists, e.g. "2 pages, 35 strokes"
+ */
+export function describeSession(session: InkSession): string {
+  const pages = session.pages.length;
+  const strokes = sessionStrokeCount(session);
+  return `${pages} ${pages === 1 ? 'page' : 'pages'}, ${strokes} ${strokes === 1 ? 'stroke' : 'strokes'}`;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseSession(raw: any): InkSession | null {
+  if (!raw || !Array.isArray(raw.pages)) return null;
+  const pages = raw.pages
+    .filter((page: unknown) => Array.isArray(page))
+    .map(parseInkStrokes);
+  if (pages.length === 0) return null;
+
+  return {
+    savedAt: isNumber(raw.savedAt) ? raw.savedAt : 0,
+    pageIndex: isNumber(raw.pageIndex) ? Math.min(Math.max(0, Math.floor(raw.pageIndex)), pages.length - 1) : 0,
+    pages,
+  };
+}
+
+/**
+ * Read session data saved by an earlier version or a crashed write.
+ * Anything malformed is dropped rather than failing the whole load.
+ */
+export function parseSessionData(raw: unknown): SessionData {
+  const data = raw as any;
+  const history = Array.isArray(data?.history) ? data.history : [];
+  return {
+    current: parseSession(data?.current),
+    history: history
+      .map(parseSession)
+      .filter((session: InkSession | null): session is InkSession => session !== null),
+  };
+}
+
+/**
+ * Add a session to the front of the history, keeping at most limit entries.
+ * Empty sessions are not worth restoring and are left out.
+ */
+export function addToHistory(history: InkSession[], session: InkSession, limit: number): InkSession[] {
+  if (isEmptySession(session)) return history.slice(0, Math.max(0, limit));
+  return [session, ...history].slice(0, Math.max(0, limit));
+}
+
+/**
+ * Canvas autosave, kept in its own file in the plugin folder so that
+ * large stroke data doesn't slow down reading and writing settings
+ */
+export class SessionStore {
+  private app: App;
+  private path: string;
+  private data: SessionData = { current: null, history: [] };
+
+  constructor(app: App, path: string) {
+    this.app = app;
+    this.path = path;
+  }
+
+  async load(): Promise<void> {
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        this.data = parseSessionData(JSON.parse(await this.app.vault.adapter.read(this.path)));
+      }
+    } catch (error) {
+      console.warn('[OOCR] Could not read saved canvas sessions:', error);
+      this.data = { current: null, history: [] };
+    }
+  }
+
+  async save(): Promise<void> {
+    await this.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+  }
+
+  getCurrent(): InkSession | null {
+    return this.data.current;
+  }
+
+  getHistory(): InkSession[] {
+    return this.data.history;
+  }
+
+  async setCurrent(session: InkSession | null): Promise<void> {
+    this.data.current = session;
+    await this.save();
+  }
+
+  /**
+   * Move a session into the history (e.g. before starting a new one)
+   */
+  async archive(session: InkSession, limit: number): Promise<void> {
+    this.data.history = addToHistory(this.data.history, session, limit);
+    await this.save();
+  }
+
+  async removeFromHistory(session: InkSession): Promise<void> {
+    this.data.history = this.data.history.filter(entry => entry !== session);
+    await this.save();
+  }
+}
@@ -1,9 +1,12 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import OOCRPlugin from './main';
+import { PaperTemplate, PAPER_TEMPLATES } from './paperTemplate';
+import { InsertFormat, INSERT_FORMATS } from './insertFormat';
+import { InsertTarget, INSERT_TARGETS, DEFAULT_CAPTURE_TEMPLATE } from './noteTarget';
 
 export interface OOCRSettings {
   // OCR Engine selection
-  ocrEngine: 'tesseract' | 'myscript';
+  ocrEngine: string;  // Id of a registered recognition engine
 
   // Tesseract settings
   tesseractLanguage: string;
@@ -16,10 +19,38 @@ export interface OOCRSettings {
   // Capture settings
   captureStrokes: boolean; // Whether to capture vector stroke data
   fallbackToBitmap: boolean; // Fallback to bitmap if stroke recognition fails
+  simplifyTolerance: number; // Point simplification before upload, in pixels (0 = send every point)
+  penOnlyInput: boolean; // Only the stylus (or mouse) draws; touch scrolls and zooms
+  scratchOutGesture: boolean; // Zig-zag over ink deletes it
+  eInkMode: boolean; // Fewer, crisper repaints for slow e-ink panels
+  recognizeAllPages: boolean; // Recognize/Insert cover every page, not just the current one
+  reviewBeforeOutput: boolean; // Show the recognized words for correction before copying/inserting
+  inkStructure: boolean; // Turn drawn boxes, bullets, underlines and large writing into Markdown structure
+  mathDisplayMode: boolean; // Math mode inserts $$ blocks instead of inline $...$ (can be changed in the preview)
+  confidenceThreshold: number; // Words the engine is less sure of (0-100) are marked for proofreading (0 = off)
+  highlightLowConfidence: boolean; // Wrap low-confidence words in ==highlight== when copying/inserting
+
+  // Session settings
+  persistCanvas: boolean; // Keep the canvas contents across closing the view and restarts
+  sessionHistorySize: number; // Number of previous sessions kept for restoring
+  inkFolder: string; // Where "Save as ink file" puts .oocr files (empty = default location for new files)
+
+  // Paper settings
+  paperTemplate: PaperTemplate; // Background pattern (never included in OCR input)
+  paperSpacing: number; // Line/grid spacing in pixels
+
+  // Auto-recognition settings
+  autoRecognize: boolean; // Recognize automatically when writing pauses
+  autoRecognizeDelay: number; // Idle time after the last stroke before recognizing (ms)
 
   // Debug settings
   enableDebugFiles: boolean; // Write debug files for troubleshooting
   addNewlineAfterInsert: boolean; // Add newline after inserting recognized text
+  insertFormat: InsertFormat; // How recognized text is laid out when inserted (also on the toolbar)
+  insertTarget: InsertTarget; // Where Insert puts the text: at the cursor, or appended to a note (also on the toolbar)
+  inboxNote: string; // Note that captures are appended to for the "Inbox note" target
+  captureTemplate: string; // Entry added to the inbox/daily note; {{text}}, {{date}}, {{time}}, {{engine}}
+  embedInkOnInsert: boolean; // Save the ink as SVG and embed it above the inserted text
 }
 
 export const DEFAULT_SETTINGS: OOCRSettings = {
@@ -30,8 +61,30 @@ export const DEFAULT_SETTINGS: OOCRSettings = {
   myScriptLanguage: 'en_US',
   captureStrokes: true,
   fallbackToBitmap: true,
+  simplifyTolerance: 1,
+  penOnlyInput: false,
+  scratchOutGesture: true,
+  eInkMode: false,
+  recognizeAllPages: false,
+  reviewBeforeOutput: true,
+  inkStructure: false,
+  mathDisplayMode: true,
+  confidenceThreshold: 60,
+  highlightLowConfidence: false,
+  persistCanvas: true,
+  sessionHistorySize: 5,
+  inkFolder: '',
+  paperTemplate: 'blank',
+  paperSpacing: 32,
+  autoRecognize: false,
+  autoRecognizeDelay: 1500,
   enableDebugFiles: false,
   addNewlineAfterInsert: true,
+  insertFormat: 'lines',
+  insertTarget: 'cursor',
+  inboxNote: 'Inbox.md',
+  captureTemplate: DEFAULT_CAPTURE_TEMPLATE,
+  embedInkOnInsert: false,
 };
 
 export class OOCRSettingTab extends PluginSettingTab {
@@ -51,102 +104,19 @@ export class OOCRSettingTab extends PluginSettingTab {
     // OCR Engine Selection
     new Setting(containerEl)
       .setName('OCR Engine')
-      .setDesc('Choose between Tesseract.js (local, free) or MyScript (cloud, stroke-aware)')
+      .setDesc('Engine used for recognition. Its own settings appear below.')
       .addDropdown(dropdown => dropdown
-        .addOption('tesseract', 'Tesseract.js (Local)')
-        .addOption('myscript', 'MyScript Cloud (Better handwriting)')
-        .setValue(this.plugin.settings.ocrEngine)
+        .addOptions(this.plugin.engines.options())
+        .setValue(this.plugin.getEngine().id)
         .onChange(async value => {
-          this.plugin.settings.ocrEngine = value as 'tesseract' | 'myscript';
+          this.plugin.settings.ocrEngine = value;
           await this.plugin.saveSettings();
           this.display(); // Refresh to show/hide relevant settings
         })
       );
 
-    // Tesseract Settings
-    if (this.plugin.settings.ocrEngine === 'tesseract') {
-      containerEl.createEl('h3', { text: 'Tesseract Settings' });
-
-      new Setting(containerEl)
-        .setName('Language')
-        .setDesc('Language code for OCR (e.g., eng, fra, deu)')
-        .addText(text => text
-          .setPlaceholder('eng')
-          .setValue(this.plugin.settings.tesseractLanguage)
-          .onChange(async value => {
-            this.plugin.settings.tesseractLanguage = value || 'eng';
-            await this.plugin.saveSettings();
-          })
-        );
-
-      new Setting(containerEl)
-        .setName('Handwriting Mode')
-        .setDesc('Optimize for handwriting recognition')
-        .addToggle(toggle => toggle
-          .setValue(this.plugin.settings.tesseractHandwritingMode)
-          .onChange(async value => {
-            this.plugin.settings.tesseractHandwritingMode = value;
-            await this.plugin.saveSettings();
-          })
-        );
-    }
-
-    // MyScript Settings
-    if (this.plugin.settings.ocrEngine === 'myscript') {
-      containerEl.createEl('h3', { text: 'MyScript Settings' });
-
-      const desc = document.createDocumentFragment();
-      desc.appendText('Get your API key from ');
-      const link = desc.createEl('a', {
-        href: 'https://developer.myscript.com/getting-started/web',
-        text: 'developer.myscript.com',
-      });
-      link.setAttr('target', '_blank');
-      desc.appendText('. Free tier includes 2000 requests/month. HMAC authentication is disabled on the MyScript dashboard for simplicity.');
-      containerEl.createEl('p', { text: '' }).append(desc);
-
-      new Setting(containerEl)
-        .setName('Application Key')
-        .setDesc('Your MyScript Cloud application key')
-        .addText(text => text
-          .setPlaceholder('xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx')
-          .setValue(this.plugin.settings.myScriptApplicationKey)
-          .onChange(async value => {
-            this.plugin.settings.myScriptApplicationKey = value;
-            await this.plugin.saveSettings();
-            this.plugin.updateMyScriptConfig();
-          })
-        );
-
-      new Setting(containerEl)
-        .setName('Language')
-        .setDesc('Language for recognition (e.g., en_US, fr_FR, de_DE)')
-        .addText(text => text
-          .setPlaceholder('en_US')
-          .setValue(this.plugin.settings.myScriptLanguage)
-          .onChange(async value => {
-            this.plugin.settings.myScriptLanguage = value || 'en_US';
-            await this.plugin.saveSettings();
-          })
-        );
-
-      // Status indicator
-      const isConfigured = this.plugin.myScriptService?.isConfigured();
-      const statusDiv = containerEl.createEl('div', { cls: 'myscript-status', });
-      statusDiv.style.padding = '12px';
-      statusDiv.style.marginTop = '16px';
-      statusDiv.style.borderRadius = '4px';
-
-      if (isConfigured) {
-        statusDiv.style.backgroundColor = 'var(--background-modifier-success)';
-        statusDiv.style.color = 'var(--text-on-accent)';
-        statusDiv.textContent = 'MyScript is configured and ready';
-      } else {
-        statusDiv.style.backgroundColor = 'var(--background-modifier-error)';
-        statusDiv.style.color = 'var(--text-on-accent)';
-        statusDiv.textContent = 'MyScript is not configured. Please add your API key.';
-      }
-    }
+    // Settings of the selected engine
+    this.plugin.getEngine().displaySettings?.(containerEl, () => this.display());
 
     // Capture Settings (shared)
     containerEl.createEl('h3', { text: 'Capture Settings' });
@@ -173,20 +143,223 @@ export class OOCRSettingTab extends PluginSettingTab {
         })
       );
 
-    // Debug Settings
-    containerEl.createEl('h3', { text: 'Debug Settings' });
+    new Setting(containerEl)
+      .setName('Stroke Simplification')
+      .setDesc('Drop stroke points that deviate less than this many pixels before sending to MyScript (0 sends every point). Smaller requests, same shape.')
+      .addSlider(slider => slider
+        .setLimits(0, 5, 0.5)
+        .setValue(this.plugin.settings.simplifyTolerance)
+        .setDynamicTooltip()
+        .onChange(async value => {
+          this.plugin.settings.simplifyTolerance = value;
+          await this.plugin.saveSettings();
+        })
+      );
 
     new Setting(containerEl)
-      .setName('Enable Debug Files')
-      .setDesc('Write debug files to vault for troubleshooting (may impact performance)')
+      .setName('Pen-Only Input')
+      .setDesc('Only draw with the stylus (palm rejection). Touch scrolls with one finger and zooms with two.')
       .addToggle(toggle => toggle
-        .setValue(this.plugin.settings.enableDebugFiles)
+        .setValue(this.plugin.settings.penOnlyInput)
         .onChange(async value => {
-          this.plugin.settings.enableDebugFiles = value;
+          this.plugin.settings.penOnlyInput = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Scratch-Out to Delete')
+      .setDesc('Scribbling back and forth over ink erases it, like crossing out on paper')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.scratchOutGesture)
+        .onChange(async value => {
+          this.plugin.settings.scratchOutGesture = value;
           await this.plugin.saveSettings();
         })
       );
 
+    new Setting(containerEl)
+      .setName('E-Ink Mode')
+      .setDesc('For e-ink tablets: no predicted ink, hard ink edges without anti-aliasing and at most 20 repaints per second. Reopen the canvas to apply.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.eInkMode)
+        .onChange(async value => {
+          this.plugin.settings.eInkMode = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Recognize All Pages')
+      .setDesc('Recognize and Insert cover every page of the canvas instead of only the current one. Page results are joined in order, separated by ---.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.recognizeAllPages)
+        .onChange(async value => {
+          this.plugin.settings.recognizeAllPages = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Review Before Copy/Insert')
+      .setDesc('Show the recognized text first. Tap a word to pick one of the engine\'s alternatives or edit it, then copy or insert.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.reviewBeforeOutput)
+        .onChange(async value => {
+          this.plugin.settings.reviewBeforeOutput = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Structure From Ink')
+      .setDesc('Read list structure from the drawing: a small box before a line becomes a task (ticked if there is a mark in it), a dot or dash a bullet, and larger or underlined writing a heading. The result is inserted as Markdown, ignoring the insert format. May take one request per line if the engine splits lines differently.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.inkStructure)
+        .onChange(async value => {
+          this.plugin.settings.inkStructure = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Math as Display Block')
+      .setDesc(`In math mode (the sigma button, ${this.plugin.engines.names('math')} only), insert LaTeX as a $$ block instead of inline $...$. The preview lets you switch for each formula.`)
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.mathDisplayMode)
+        .onChange(async value => {
+          this.plugin.settings.mathDisplayMode = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Low Confidence Threshold')
+      .setDesc('Words recognized with less confidence than this (in %) are shaded on the canvas and in the review panel. Only Tesseract reports word confidence. 0 turns marking off.')
+      .addSlider(slider => slider
+        .setLimits(0, 100, 5)
+        .setValue(this.plugin.settings.confidenceThreshold)
+        .setDynamicTooltip()
+        .onChange(async value => {
+          this.plugin.settings.confidenceThreshold = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Highlight Low-Confidence Words')
+      .setDesc('Wrap words under the threshold in ==highlight== when copying or inserting, so they are easy to find when proofreading. Words corrected in the review panel are not marked.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.highlightLowConfidence)
+        .onChange(async value => {
+          this.plugin.settings.highlightLowConfidence = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Session Settings
+    containerEl.createEl('h3', { text: 'Sessions' });
+
+    new Setting(containerEl)
+      .setName('Keep Canvas Contents')
+      .setDesc('Save the ink automatically and restore it when the canvas is reopened, also after restarting Obsidian')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.persistCanvas)
+        .onChange(async value => {
+          this.plugin.settings.persistCanvas = value;
+          await this.plugin.saveSettings();
+          if (!value) {
+            await this.plugin.sessionStore.setCurrent(null);
+          }
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Session History')
+      .setDesc('How many previous sessions to keep. "New Handwriting Session" moves the current ink here; restore it with "Restore Previous Handwriting Session" or the history button.')
+      .addSlider(slider => slider
+        .setLimits(0, 20, 1)
+        .setValue(this.plugin.settings.sessionHistorySize)
+        .setDynamicTooltip()
+        .onChange(async value => {
+          this.plugin.settings.sessionHistorySize = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Ink File Folder')
+      .setDesc('Folder for .oocr ink files saved from the canvas. Leave empty to use the default location for new files.')
+      .addText(text => text
+        .setPlaceholder('Handwriting')
+        .setValue(this.plugin.settings.inkFolder)
+        .onChange(async value => {
+          this.plugin.settings.inkFolder = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Paper Settings
+    containerEl.createEl('h3', { text: 'Paper' });
+
+    new Setting(containerEl)
+      .setName('Paper Template')
+      .setDesc('Background pattern for the handwriting canvas. It is never included in what is sent for recognition.')
+      .addDropdown(dropdown => dropdown
+        .addOptions(PAPER_TEMPLATES)
+        .setValue(this.plugin.settings.paperTemplate)
+        .onChange(async value => {
+          this.plugin.settings.paperTemplate = value as PaperTemplate;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Line Spacing')
+      .setDesc('Distance between lines, grid lines or dots, in pixels')
+      .addSlider(slider => slider
+        .setLimits(16, 64, 4)
+        .setValue(this.plugin.settings.paperSpacing)
+        .setDynamicTooltip()
+        .onChange(async value => {
+          this.plugin.settings.paperSpacing = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Auto-Recognition Settings
+    containerEl.createEl('h3', { text: 'Auto-Recognition' });
+
+    new Setting(containerEl)
+      .setName('Recognize While Writing')
+      .setDesc('Recognize automatically when you pause writing and show the text above the canvas. Each pause uses one MyScript request.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.autoRecognize)
+        .onChange(async value => {
+          this.plugin.settings.autoRecognize = value;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    if (this.plugin.settings.autoRecognize) {
+      new Setting(containerEl)
+        .setName('Pause Before Recognizing')
+        .setDesc('Idle time after the last stroke, in milliseconds')
+        .addSlider(slider => slider
+          .setLimits(500, 5000, 250)
+          .setValue(this.plugin.settings.autoRecognizeDelay)
+          .setDynamicTooltip()
+          .onChange(async value => {
+            this.plugin.settings.autoRecognizeDelay = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
+    // Insert Settings
+    containerEl.createEl('h3', { text: 'Insert' });
+
     new Setting(containerEl)
       .setName('Add Newline After Insert')
       .setDesc('Automatically add a newline after inserting recognized text')
@@ -197,5 +370,78 @@ export class OOCRSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         })
       );
+
+    new Setting(containerEl)
+      .setName('Insert Format')
+      .setDesc('Default layout of inserted text: keep the handwritten line breaks, join everything into one paragraph, or make each line a bullet, task, quote or callout line. Can also be switched from the canvas toolbar.')
+      .addDropdown(dropdown => dropdown
+        .addOptions(INSERT_FORMATS)
+        .setValue(this.plugin.settings.insertFormat)
+        .onChange(async value => {
+          this.plugin.settings.insertFormat = value as InsertFormat;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Insert Into')
+      .setDesc('Where Insert puts the text by default: at the cursor of the last note, or at the end of the inbox note or today\'s daily note (missing notes are created). Can also be switched from the canvas toolbar.')
+      .addDropdown(dropdown => dropdown
+        .addOptions(INSERT_TARGETS)
+        .setValue(this.plugin.settings.insertTarget)
+        .onChange(async value => {
+          this.plugin.settings.insertTarget = value as InsertTarget;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Inbox Note')
+      .setDesc('Path of the note captures are appended to')
+      .addText(text => text
+        .setPlaceholder('Inbox.md')
+        .setValue(this.plugin.settings.inboxNote)
+        .onChange(async value => {
+          this.plugin.settings.inboxNote = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Capture Template')
+      .setDesc('Entry added to the inbox or daily note. Placeholders: {{text}}, {{date}}, {{time}}, {{engine}}')
+      .addTextArea(text => text
+        .setPlaceholder(DEFAULT_CAPTURE_TEMPLATE)
+        .setValue(this.plugin.settings.captureTemplate)
+        .onChange(async value => {
+          this.plugin.settings.captureTemplate = value || DEFAULT_CAPTURE_TEMPLATE;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Embed Handwriting on Insert')
+      .setDesc('Save the ink as an SVG in the attachments folder and embed it above the inserted text, so the original handwriting stays with the note')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.embedInkOnInsert)
+        .onChange(async value => {
+          this.plugin.settings.embedInkOnInsert = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Debug Settings
+    containerEl.createEl('h3', { text: 'Debug Settings' });
+
+    new Setting(containerEl)
+      .setName('Enable Debug Files')
+      .setDesc('Write debug files to vault for troubleshooting (may impact performance)')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enableDebugFiles)
+        .onChange(async value => {
+          this.plugin.settings.enableDebugFiles = value;
+          await this.plugin.saveSettings();
+        })
+      );
   }
 }
@@ -0,0 +1,193 @@
+import { Stroke } from './myScriptService';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Shortest distance from point p to the segment a-b
+ */
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) {
+    return Math.hypot(p.x - a.x, p.y - a.y);
+  }
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+/**
+ * Whether segments a-b and c-d properly cross each other
+ */
+export function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) &&
+    ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/**
+ * Shortest distance between segments a-b and c-d
+ */
+export function segmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+  if (segmentsIntersect(a, b, c, d)) return 0;
+  return Math.min(
+    distanceToSegment(a, c, d),
+    distanceToSegment(b, c, d),
+    distanceToSegment(c, a, b),
+    distanceToSegment(d, a, b)
+  );
+}
+
+/**
+ * Whether the eraser path a-b passes within radius of any part of the stroke.
+ * Testing the whole eraser segment (not just its end point) means fast
+ * movements can't skip over thin strokes between two pointer events.
+ */
+export function strokeIntersectsSegment(stroke: Stroke, a: Point, b: Point, radius: number): boolean {
+  const points = stroke.points;
+  if (points.length === 1) {
+    return distanceToSegment(points[0], a, b) <= radius;
+  }
+  for (let i = 1; i < points.length; i++) {
+    if (segmentDistance(points[i - 1], points[i], a, b) <= radius) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Bounding box of a set of strokes, or null if there are no points
+ */
+export function strokesBounds(strokes: Stroke[]): Bounds | null {
+  let bounds: Bounds | null = null;
+  for (const stroke of strokes) {
+    for (const p of stroke.points) {
+      if (!bounds) {
+        bounds = { minX: p.x, minY: p.y, maxX: p.x, maxY: p.y };
+      } else {
+        bounds.minX = Math.min(bounds.minX, p.x);
+        bounds.minY = Math.min(bounds.minY, p.y);
+        bounds.maxX = Math.max(bounds.maxX, p.x);
+        bounds.maxY = Math.max(bounds.maxY, p.y);
+      }
+    }
+  }
+  return bounds;
+}
+
+export function pointInBounds(p: Point, bounds: Bounds, margin: number = 0): boolean {
+  return p.x >= bounds.minX - margin && p.x <= bounds.maxX + margin &&
+    p.y >= bounds.minY - margin && p.y <= bounds.maxY + margin;
+}
+
+/**
+ * Even-odd ray casting test; the polygon is implicitly closed
+ */
+export function pointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) &&
+      p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a stroke counts as inside a lasso polygon.
+ * Requires a share of its points inside, so a lasso that clips
+ * the tail of a letter still picks it up.
+ */
+export function strokeInPolygon(stroke: Stroke, polygon: Point[], minRatio: number = 0.5): boolean {
+  if (polygon.length < 3 || stroke.points.length === 0) return false;
+  const inside = stroke.points.filter(p => pointInPolygon(p, polygon)).length;
+  return inside / stroke.points.length >= minRatio;
+}
+
+/**
+ * Copy of a stroke moved by dx/dy (strokes are never mutated in place)
+ */
+export function translateStroke<T extends Stroke>(stroke: T, dx: number, dy: number): T {
+  return {
+    ...stroke,
+    points: stroke.points.map(p => ({ ...p, x: p.x + dx, y: p.y + dy })),
+  };
+}
+
+/**
+ * Copies of strokes with their timestamps shifted so each one starts after
+ * the previous one ends (for strokes put in a different order than drawn).
+ * Timing within a stroke is kept; strokes already in time order are returned as they are.
+ */
+export function retimeStrokes<T extends Stroke>(strokes: T[]): T[] {
+  let end = -Infinity;
+  return strokes.map(stroke => {
+    if (stroke.points.length === 0) return stroke;
+    const shift = Math.max(0, end + 1 - stroke.points[0].t);
+    const copy = shift === 0 ? stroke : { ...stroke, points: stroke.points.map(p => ({ ...p, t: p.t + shift })) };
+    end = copy.points[copy.points.length - 1].t;
+    return copy;
+  });
+}
+
+/**
+ * Ramer–Douglas–Peucker simplification. Returns a subset of the original
+ * points (so timestamps and pressure are kept as recorded), always including
+ * the first and last point. A tolerance of 0 or less returns the input.
+ */
+export function simplifyPoints<T extends Point>(points: T[], tolerance: number): T[] {
+  if (tolerance <= 0 || points.length <= 2) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative, so very long strokes can't overflow the call stack
+  const ranges: Array<[number, number]> = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      ranges.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Copy of a stroke with its points simplified (see simplifyPoints)
+ */
+export function simplifyStroke<T extends Stroke>(stroke: T, tolerance: number): T {
+  return { ...stroke, points: simplifyPoints(stroke.points, tolerance) };
+}
@@ -0,0 +1,60 @@
+/**
+ * Undo/redo history for the handwriting canvas
+ *
+ * Stores whole snapshots of the stroke list rather than individual edits.
+ * Strokes are never mutated in place, so a snapshot is just a shallow copy
+ * of the array and stays cheap even for long sessions.
+ */
+export class StrokeHistory<T> {
+  private undoStack: T[][] = [];
+  private redoStack: T[][] = [];
+  private limit: number;
+
+  constructor(limit: number = 100) {
+    this.limit = limit;
+  }
+
+  /**
+   * Record the state before a change. Any redo history is discarded.
+   */
+  record(snapshot: T[]): void {
+    this.undoStack.push(snapshot.slice());
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Step back one change. Returns the state to restore, or null if there is nothing to undo.
+   */
+  undo(current: T[]): T[] | null {
+    const previous = this.undoStack.pop();
+    if (!previous) return null;
+    this.redoStack.push(current.slice());
+    return previous;
+  }
+
+  /**
+   * Re-apply the last undone change. Returns the state to restore, or null if there is nothing to redo.
+   */
+  redo(current: T[]): T[] | null {
+    const next = this.redoStack.pop();
+    if (!next) return null;
+    this.undoStack.push(current.slice());
+    return next;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,161 @@
+import { Stroke, StrokePoint } from './myScriptService';
+
+export const BASE_LINE_WIDTH = 4.5;
+export const INK_COLOR = '#000000';
+const HIGHLIGHTER_ALPHA = 0.35;
+
+export interface StrokeStyle {
+  color: string;
+  width: number; // Base width, varied by pressure (highlighter: fixed width)
+  highlighter?: boolean; // Translucent marker, drawn under ink and left out of recognition
+}
+
+/**
+ * A captured stroke together with how it was drawn
+ */
+export interface InkStroke extends Stroke {
+  style?: StrokeStyle;
+}
+
+export const DEFAULT_STROKE_STYLE: StrokeStyle = {
+  color: INK_COLOR,
+  width: BASE_LINE_WIDTH,
+};
+
+export interface DrawOptions {
+  monochrome?: boolean; // Draw everything in solid black (for OCR input)
+}
+
+/**
+ * Line width for a given pen pressure (matches live drawing)
+ */
+export function pressureWidth(pressure: number | undefined, baseWidth: number = BASE_LINE_WIDTH): number {
+  const p = pressure !== undefined && pressure > 0 ? pressure : 0.5;
+  return baseWidth * (0.5 + p);
+}
+
+/**
+ * Set colour and blending for a stroke style (shared by live drawing and repaints)
+ */
+export function applyStrokeStyle(ctx: CanvasRenderingContext2D, style: StrokeStyle, options: DrawOptions = {}): void {
+  const color = options.monochrome ? INK_COLOR : style.color;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (style.highlighter && !options.monochrome) {
+    ctx.globalAlpha = HIGHLIGHTER_ALPHA;
+    ctx.globalCompositeOperation = 'multiply';
+  } else {
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+  }
+}
+
+function midpoint(a: StrokePoint, b: StrokePoint): { x: number; y: number } {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Add the curve piece that ends halfway between points[index - 1] and
+ * points[index] to the current path. Pieces are quadratic curves through
+ * the midpoints, with the recorded points as control points, so the ink
+ * is smooth instead of a polyline. Live drawing adds one piece per new
+ * point; the final half-segment is added by traceStrokeEnd.
+ */
+function traceStrokePiece(ctx: CanvasRenderingContext2D, points: StrokePoint[], index: number): void {
+  const end = midpoint(points[index - 1], points[index]);
+  if (index === 1) {
+    ctx.moveTo(points[0].x, points[0].y);
+    ctx.lineTo(end.x, end.y);
+    return;
+  }
+  const start = midpoint(points[index - 2], points[index - 1]);
+  ctx.moveTo(start.x, start.y);
+  ctx.quadraticCurveTo(points[index - 1].x, points[index - 1].y, end.x, end.y);
+}
+
+function traceStrokeEnd(ctx: CanvasRenderingContext2D, points: StrokePoint[]): void {
+  const last = points.length - 1;
+  const start = midpoint(points[last - 1], points[last]);
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(points[last].x, points[last].y);
+}
+
+/**
+ * Draw the piece of a pen stroke completed by the point at index (for live drawing).
+ * The caller sets the style (see applyStrokeStyle).
+ */
+export function drawStrokePiece(ctx: CanvasRenderingContext2D, stroke: InkStroke, index: number): void {
+  if (index < 1 || index >= stroke.points.length) return;
+  const style = stroke.style ?? DEFAULT_STROKE_STYLE;
+  ctx.lineWidth = style.highlighter ? style.width : pressureWidth(stroke.points[index].p, style.width);
+  ctx.beginPath();
+  traceStrokePiece(ctx, stroke.points, index);
+  ctx.stroke();
+}
+
+/**
+ * Draw the last half-segment of a finished stroke (for live drawing)
+ */
+export function drawStrokeEnd(ctx: CanvasRenderingContext2D, stroke: InkStroke): void {
+  if (stroke.points.length < 2) return;
+  const style = stroke.style ?? DEFAULT_STROKE_STYLE;
+  const last = stroke.points[stroke.points.length - 1];
+  ctx.lineWidth = style.highlighter ? style.width : pressureWidth(last.p, style.width);
+  ctx.beginPath();
+  traceStrokeEnd(ctx, stroke.points);
+  ctx.stroke();
+}
+
+/**
+ * Draw a single stroke from its vector points
+ */
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: InkStroke, options: DrawOptions = {}): void {
+  const points = stroke.points;
+  if (points.length === 0) return;
+
+  const style = stroke.style ?? DEFAULT_STROKE_STYLE;
+  ctx.save();
+  applyStrokeStyle(ctx, style, options);
+
+  if (style.highlighter) {
+    // One path at constant width, so overlapping pieces don't darken
+    if (points.length > 1) {
+      ctx.lineWidth = style.width;
+      ctx.beginPath();
+      for (let i = 1; i < points.length; i++) {
+        traceStrokePiece(ctx, points, i);
+      }
+      traceStrokeEnd(ctx, points);
+      ctx.stroke();
+    }
+    ctx.restore();
+    return;
+  }
+
+  // Start dot, so taps and very short strokes stay visible
+  const first = points[0];
+  ctx.beginPath();
+  ctx.arc(first.x, first.y, pressureWidth(first.p, style.width) / 2, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Pressure varies along the stroke, so each piece gets its own width
+  for (let i = 1; i < points.length; i++) {
+    drawStrokePiece(ctx, stroke, i);
+  }
+  drawStrokeEnd(ctx, stroke);
+  ctx.restore();
+}
+
+/**
+ * Draw a list of strokes in order, highlighter strokes underneath the ink
+ */
+export function drawStrokes(ctx: CanvasRenderingContext2D, strokes: InkStroke[], options: DrawOptions = {}): void {
+  for (const stroke of strokes) {
+    if (stroke.style?.highlighter) drawStroke(ctx, stroke, options);
+  }
+  for (const stroke of strokes) {
+    if (!stroke.style?.highlighter) drawStroke(ctx, stroke, options);
+  }
+}
@@ -0,0 +1,81 @@
+import { StrokePoint } from './myScriptService';
+import { InkStroke, DEFAULT_STROKE_STYLE, pressureWidth } from './strokeRenderer';
+import { strokesBounds } from './strokeGeometry';
+
+const SVG_PADDING = 10;
+const HIGHLIGHTER_OPACITY = 0.35;
+
+export interface SvgOptions {
+  padding?: number;  // Space around the ink, in pixels
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Path data for a stroke: the same midpoint quadratic curves as the canvas,
+ * so the exported ink looks like what was written
+ */
+function strokePath(points: StrokePoint[], dx: number, dy: number): string {
+  const x = (p: StrokePoint) => round(p.x + dx);
+  const y = (p: StrokePoint) => round(p.y + dy);
+  const parts = [`M${x(points[0])} ${y(points[0])}`];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const mx = round((a.x + b.x) / 2 + dx);
+    const my = round((a.y + b.y) / 2 + dy);
+    parts.push(i === 1 ? `L${mx} ${my}` : `Q${x(a)} ${y(a)} ${mx} ${my}`);
+  }
+  const last = points[points.length - 1];
+  parts.push(`L${x(last)} ${y(last)}`);
+  return parts.join('');
+}
+
+function strokeElement(stroke: InkStroke, dx: number, dy: number): string {
+  const style = stroke.style ?? DEFAULT_STROKE_STYLE;
+  const points = stroke.points;
+
+  // SVG strokes have one width; use the stroke's average pressure
+  const pressure = points.reduce((sum, p) => sum + (p.p !== undefined && p.p > 0 ? p.p : 0.5), 0) / points.length;
+  const width = round(style.highlighter ? style.width : pressureWidth(pressure, style.width));
+  const opacity = style.highlighter ? ` stroke-opacity="${HIGHLIGHTER_OPACITY}"` : '';
+
+  if (points.length === 1) {
+    const fillOpacity = style.highlighter ? ` fill-opacity="${HIGHLIGHTER_OPACITY}"` : '';
+    return `<circle cx="${round(points[0].x + dx)}" cy="${round(points[0].y + dy)}" r="${round(width / 2)}" fill="${style.color}"${fillOpacity}/>`;
+  }
+  return `<path d="${strokePath(points, dx, dy)}" stroke="${style.color}" stroke-width="${width}"${opacity}/>`;
+}
+
+/**
+ * Render strokes as a standalone SVG cropped to the ink, with highlighter
+ * strokes underneath. Returns null if there is no ink.
+ */
+export function strokesToSvg(strokes: InkStroke[], options: SvgOptions = {}): string | null {
+  const drawn = strokes.filter(stroke => stroke.points.length > 0);
+  const bounds = strokesBounds(drawn);
+  if (!bounds) return null;
+
+  // Leave room for the line width, so the edges of the ink aren't clipped
+  const maxWidth = Math.max(...drawn.map(stroke => (stroke.style ?? DEFAULT_STROKE_STYLE).width * 1.5));
+  const padding = (options.padding ?? SVG_PADDING) + maxWidth / 2;
+  const dx = padding - bounds.minX;
+  const dy = padding - bounds.minY;
+  const width = Math.ceil(bounds.maxX - bounds.minX + padding * 2);
+  const height = Math.ceil(bounds.maxY - bounds.minY + padding * 2);
+
+  const ordered = [
+    ...drawn.filter(stroke => stroke.style?.highlighter),
+    ...drawn.filter(stroke => !stroke.style?.highlighter),
+  ];
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '<g fill="none" stroke-linecap="round" stroke-linejoin="round">',
+    ...ordered.map(stroke => strokeElement(stroke, dx, dy)),
+    '</g>',
+    '</svg>',
+  ].join('\n');
+}
@@ -0,0 +1,78 @@
+import { Setting } from 'obsidian';
+import OOCRPlugin from './main';
+import { OcrService } from './ocrService';
+import { RecognizeOptions } from './myScriptService';
+import { RecognitionEngine, EngineCapabilities } from './recognitionEngine';
+import { RecognitionResult } from './recognitionResult';
+
+/**
+ * Local recognition with Tesseract.js. Reads images only, but needs no
+ * account and works offline.
+ */
+export class TesseractEngine implements RecognitionEngine {
+  readonly id = 'tesseract';
+  readonly name = 'Tesseract';
+  readonly label = 'Tesseract.js (Local)';
+  readonly capabilities: EngineCapabilities = { strokes: false, bitmaps: true, math: false, diagrams: false };
+
+  private plugin: OOCRPlugin;
+  private service: OcrService;
+
+  constructor(plugin: OOCRPlugin, service: OcrService) {
+    this.plugin = plugin;
+    this.service = service;
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  language(): string {
+    return this.plugin.settings.tesseractLanguage;
+  }
+
+  async recognizeBitmap(image: string | ArrayBuffer, mimeType: string, options: RecognizeOptions): Promise<RecognitionResult> {
+    const tesseractOptions = {
+      handwriting: this.plugin.settings.tesseractHandwritingMode,
+      language: this.plugin.settings.tesseractLanguage,
+    };
+    if (typeof image === 'string') {
+      return this.service.recognize(image, tesseractOptions);
+    }
+
+    // Binary image data is passed to the worker as a URL
+    const url = URL.createObjectURL(new Blob([image], { type: mimeType }));
+    try {
+      return await this.service.recognize(url, tesseractOptions);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  displaySettings(containerEl: HTMLElement) {
+    containerEl.createEl('h3', { text: 'Tesseract Settings' });
+
+    new Setting(containerEl)
+      .setName('Language')
+      .setDesc('Language code for OCR (e.g., eng, fra, deu)')
+      .addText(text => text
+        .setPlaceholder('eng')
+        .setValue(this.plugin.settings.tesseractLanguage)
+        .onChange(async value => {
+          this.plugin.settings.tesseractLanguage = value || 'eng';
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Handwriting Mode')
+      .setDesc('Optimize for handwriting recognition')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.tesseractHandwritingMode)
+        .onChange(async value => {
+          this.plugin.settings.tesseractHandwritingMode = value;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+}
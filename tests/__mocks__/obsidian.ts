@@ -5,3 +5,5 @@ export class Plugin { }
 export class ItemView { }
 export class WorkspaceLeaf { }
 export class TFile { }
+export class Modal { }
+export class SuggestModal<T> { }
@@ -0,0 +1,71 @@
+import { countReversals, isScratchOut, findScratchedStrokes } from '../gestures';
+import { Stroke, StrokePoint } from '../myScriptService';
+
+function stroke(coords: Array<[number, number]>): Stroke {
+  return { points: coords.map(([x, y], i): StrokePoint => ({ x, y, t: i * 10 })) };
+}
+
+/** Horizontal zig-zag: passes back and forth across [x0, x1], drifting down slightly */
+function zigZag(x0: number, x1: number, y: number, passes: number): Stroke {
+  const coords: Array<[number, number]> = [];
+  for (let i = 0; i <= passes; i++) {
+    coords.push([i % 2 === 0 ? x0 : x1, y + i]);
+    coords.push([(x0 + x1) / 2, y + i + 0.5]);
+  }
+  return stroke(coords);
+}
+
+describe('gestures', () => {
+  describe('countReversals', () => {
+    test('should count direction changes', () => {
+      expect(countReversals([0, 10, 0, 10, 0])).toBe(3);
+    });
+
+    test('should ignore jitter below the threshold', () => {
+      expect(countReversals([0, 10, 9, 20, 19, 30])).toBe(0);
+    });
+  });
+
+  describe('isScratchOut', () => {
+    test('should detect a dense horizontal zig-zag', () => {
+      expect(isScratchOut(zigZag(0, 60, 100, 8))).toBe(true);
+    });
+
+    test('should detect a vertical zig-zag', () => {
+      const horizontal = zigZag(0, 60, 100, 8);
+      const vertical: Stroke = { points: horizontal.points.map(p => ({ ...p, x: p.y, y: p.x })) };
+      expect(isScratchOut(vertical)).toBe(true);
+    });
+
+    test('should not treat ordinary writing as a scratch-out', () => {
+      // Something like "mmm": lots of vertical reversals but moving forward
+      const coords: Array<[number, number]> = [];
+      for (let i = 0; i < 10; i++) {
+        coords.push([i * 10, 100]);
+        coords.push([i * 10 + 5, 80]);
+      }
+      expect(isScratchOut(stroke(coords))).toBe(false);
+    });
+
+    test('should not treat a short stroke as a scratch-out', () => {
+      expect(isScratchOut(stroke([[0, 0], [10, 0], [0, 0]]))).toBe(false);
+    });
+  });
+
+  describe('findScratchedStrokes', () => {
+    const gesture = zigZag(0, 60, 100, 8);
+
+    test('should pick strokes crossed by the gesture and marks inside it', () => {
+      const crossed = stroke([[30, 80], [30, 130]]);
+      const dot = stroke([[20, 103], [21, 104]]);
+      const elsewhere = stroke([[200, 80], [200, 130]]);
+
+      const result = findScratchedStrokes(gesture, [crossed, dot, elsewhere]);
+      expect(result).toEqual([crossed, dot]);
+    });
+
+    test('should return nothing when no ink is under the gesture', () => {
+      expect(findScratchedStrokes(gesture, [stroke([[300, 300], [310, 310]])])).toEqual([]);
+    });
+  });
+});
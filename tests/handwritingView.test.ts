@@ -0,0 +1,102 @@
+import { HandwritingView } from '../handwritingView';
+import { StrokeHistory } from '../strokeHistory';
+import { InkStroke } from '../strokeRenderer';
+
+function stroke(coords: Array<[number, number]>): InkStroke {
+  return { points: coords.map(([x, y], i) => ({ x, y, t: i * 10 })) };
+}
+
+// Horizontal zig-zag across [x0, x1], like the one in the gesture tests
+function zigZag(x0: number, x1: number, y: number, passes: number): InkStroke {
+  const coords: Array<[number, number]> = [];
+  for (let i = 0; i <= passes; i++) {
+    coords.push([i % 2 === 0 ? x0 : x1, y + i]);
+    coords.push([(x0 + x1) / 2, y + i + 0.5]);
+  }
+  return stroke(coords);
+}
+
+// A view with just the state finishing a stroke touches (no DOM or canvas)
+function createView(captured: InkStroke[], current: InkStroke) {
+  const view = Object.create(HandwritingView.prototype);
+  Object.assign(view, {
+    plugin: { settings: { scratchOutGesture: true } },
+    capturedStrokes: captured,
+    currentStroke: current,
+    history: new StrokeHistory(),
+    selection: new Set(),
+    pressureValues: [],
+    frameRequest: null,
+    overlayCtx: null,
+    ctx: null,
+  });
+  view.strokesChanged = jest.fn();
+  view.extendPage = jest.fn();
+  return view;
+}
+
+describe('HandwritingView', () => {
+  describe('finishStroke', () => {
+    test('should repaint without the scratch-out gesture', () => {
+      const word = stroke([[10, 10], [60, 12], [100, 10]]);
+      const gesture = zigZag(0, 110, 5, 6);
+      const view = createView([word], gesture);
+      const painted: Array<InkStroke | null> = [];
+      view.redrawCanvas = jest.fn(() => painted.push(view.currentStroke));
+
+      view.finishStroke();
+
+      expect(view.capturedStrokes).toEqual([]);
+      expect(view.redrawCanvas).toHaveBeenCalled();
+      expect(painted).toEqual([null]);
+    });
+
+    test('should keep an ordinary stroke', () => {
+      const line = stroke([[0, 0], [50, 0]]);
+      const view = createView([], line);
+      view.redrawCanvas = jest.fn();
+
+      view.finishStroke();
+
+      expect(view.capturedStrokes).toEqual([line]);
+      expect(view.currentStroke).toBeNull();
+      expect(view.strokesChanged).toHaveBeenCalled();
+    });
+  });
+
+  describe('eventTime', () => {
+    test('should date events on the wall clock, in whole ms', () => {
+      const view = Object.create(HandwritingView.prototype);
+      const before = Date.now();
+      const time = view.eventTime({ timeStamp: performance.now() - 50.4 } as Event);
+
+      expect(Number.isInteger(time)).toBe(true);
+      expect(time).toBeGreaterThanOrEqual(before - 52);
+      expect(time).toBeLessThanOrEqual(Date.now() - 49);
+    });
+  });
+
+  describe('getInkPages', () => {
+    test('should keep highlighter marks for embedding but not for recognition', () => {
+      const writing = stroke([[0, 0], [50, 0]]);
+      const highlight: InkStroke = { ...stroke([[0, 5], [50, 5]]), style: { color: '#ffe14d', width: 18, highlighter: true } };
+      const onlyHighlight: InkStroke = { ...highlight };
+      const view = Object.create(HandwritingView.prototype);
+      Object.assign(view, {
+        plugin: { settings: { recognizeAllPages: true } },
+        selection: new Set(),
+        pageIndex: 0,
+        capturedStrokes: [writing, highlight],
+        history: new StrokeHistory(),
+        pageHeight: 800,
+        pages: [
+          { strokes: [], history: new StrokeHistory(), height: 800 },
+          { strokes: [onlyHighlight], history: new StrokeHistory(), height: 800 },
+        ],
+      });
+
+      expect(view.getInkPages()).toEqual([[writing, highlight]]);
+      expect(view.getRecognitionPages()).toEqual([[writing]]);
+    });
+  });
+});
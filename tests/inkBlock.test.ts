@@ -0,0 +1,65 @@
+import { replaceInkBlock, hashInkBlock, findInkBlock } from '../inkBlock';
+
+jest.mock('obsidian', () => ({
+  ButtonComponent: jest.fn(),
+}));
+
+describe('replaceInkBlock', () => {
+  const note = [
+    '# Notes',
+    '',
+    '```oocr-ink',
+    '{"pages":[[1]]}',
+    '```',
+    '',
+    'Between',
+    '',
+    '```oocr-ink',
+    '{"pages":[[2]]}',
+    '```',
+    'End',
+  ].join('\n');
+
+  test('should replace the body of the matching block only', () => {
+    const updated = replaceInkBlock(note, '{"pages":[[2]]}', '{"pages":[[3]]}');
+
+    expect(updated).toBe(note.replace('{"pages":[[2]]}', '{"pages":[[3]]}'));
+    expect(updated).toContain('{"pages":[[1]]}');
+  });
+
+  test('should find the block wherever it has moved', () => {
+    const edited = 'New first line\n\n' + note;
+    const updated = replaceInkBlock(edited, '{"pages":[[1]]}', 'X');
+
+    expect(updated).toBe(edited.replace('{"pages":[[1]]}', 'X'));
+  });
+
+  test('should return null when the block is gone', () => {
+    expect(replaceInkBlock(note, '{"pages":[[9]]}', 'X')).toBeNull();
+    expect(replaceInkBlock('```js\n{"pages":[[1]]}\n```', '{"pages":[[1]]}', 'X')).toBeNull();
+  });
+
+  test('should fill an empty block', () => {
+    expect(replaceInkBlock('a\n```oocr-ink\n```\nb', '', '{"pages":[]}')).toBe('a\n```oocr-ink\n{"pages":[]}\n```\nb');
+  });
+
+  test('should handle tilde fences and an unclosed block', () => {
+    expect(replaceInkBlock('~~~oocr-ink\nold\n~~~', 'old', 'new')).toBe('~~~oocr-ink\nnew\n~~~');
+    expect(replaceInkBlock('```oocr-ink\nold', 'old', 'new')).toBeNull();
+  });
+});
+
+describe('findInkBlock', () => {
+  const note = '# Notes\n```oocr-ink\n{"pages":[[1]]}\n```\n\n~~~oocr-ink\n{"pages":[[2]]}\n~~~';
+
+  test('should find a block by the hash of its body', () => {
+    expect(findInkBlock(note, hashInkBlock('{"pages":[[2]]}'))).toBe('{"pages":[[2]]}');
+    expect(findInkBlock('Moved\n\n' + note, hashInkBlock('{"pages":[[1]]}\n'))).toBe('{"pages":[[1]]}');
+  });
+
+  test('should return null when no block has the hash', () => {
+    expect(findInkBlock(note, hashInkBlock('{"pages":[[3]]}'))).toBeNull();
+    expect(hashInkBlock('a')).toMatch(/^[0-9a-f]{8}$/);
+    expect(hashInkBlock('a')).not.toBe(hashInkBlock('b'));
+  });
+});
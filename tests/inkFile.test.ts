@@ -0,0 +1,76 @@
+import { parseInkFile, serializeInkFile, parseInkStrokes, INK_FILE_VERSION } from '../inkFile';
+import { InkStroke } from '../strokeRenderer';
+
+function stroke(x: number): InkStroke {
+  return { points: [{ x, y: 0, t: 0, p: 0.5 }, { x: x + 10, y: 5, t: 16, p: 0.6 }] };
+}
+
+describe('Ink files', () => {
+  test('should round-trip pages and metadata', () => {
+    const pages = [
+      [stroke(0), { ...stroke(20), style: { color: '#d32f2f', width: 2.5, highlighter: false } }],
+      [{ ...stroke(40), style: { color: '#ffe14d', width: 18, highlighter: true } }],
+    ];
+    const metadata = { engine: 'myscript', language: 'en_US', text: 'hello', recognizedAt: 1700000000000 };
+
+    const data = parseInkFile(serializeInkFile(pages, metadata));
+
+    expect(data).toEqual({ version: INK_FILE_VERSION, pages, metadata });
+  });
+
+  test('should open an empty file as a blank page', () => {
+    expect(parseInkFile('')).toEqual({ version: INK_FILE_VERSION, pages: [[]], metadata: {} });
+  });
+
+  test('should accept a plain stroke list as one page', () => {
+    const data = parseInkFile(JSON.stringify({ strokes: [stroke(0)] }));
+    expect(data.pages).toEqual([[stroke(0)]]);
+    expect(data.metadata).toEqual({});
+  });
+
+  test('should accept a bare stroke array as one page', () => {
+    expect(parseInkFile(JSON.stringify([stroke(0), stroke(5)])).pages).toEqual([[stroke(0), stroke(5)]]);
+  });
+
+  test('should reject text that is not ink data', () => {
+    expect(() => parseInkFile('# Just a note')).toThrow('Not a valid ink file');
+    expect(() => parseInkFile('42')).toThrow('Not a valid ink file');
+  });
+
+  test('should reject files from a newer version', () => {
+    expect(() => parseInkFile(JSON.stringify({ version: INK_FILE_VERSION + 1, pages: [] }))).toThrow('newer');
+  });
+
+  test('should ignore metadata of the wrong type', () => {
+    const data = parseInkFile(JSON.stringify({ pages: [[]], metadata: { engine: 3, text: 'kept', recognizedAt: 'x' } }));
+    expect(data.metadata).toEqual({ text: 'kept' });
+  });
+});
+
+describe('parseInkStrokes', () => {
+  test('should drop malformed strokes and points', () => {
+    const strokes = parseInkStrokes([
+      stroke(0),
+      { points: [] },
+      { points: [{ x: 1, y: 2 }] },
+      { points: [{ x: 1, y: 2, t: 3 }, 'x'], style: { color: 'red' } },
+      null,
+    ]);
+
+    expect(strokes).toEqual([stroke(0), { points: [{ x: 1, y: 2, t: 3 }] }]);
+  });
+
+  test('should drop styles with colours other than hex values', () => {
+    const strokes = parseInkStrokes([
+      { ...stroke(0), style: { color: '"/><script>alert(1)</script>', width: 2, highlighter: false } },
+      { ...stroke(20), style: { color: '#D32F2F', width: 2 } },
+    ]);
+
+    expect(strokes).toEqual([stroke(0), { ...stroke(20), style: { color: '#D32F2F', width: 2, highlighter: false } }]);
+  });
+
+  test('should return an empty list for anything but an array', () => {
+    expect(parseInkStrokes(undefined)).toEqual([]);
+    expect(parseInkStrokes({ points: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+import { createPage, joinPageTexts, PAGE_SEPARATOR } from '../inkPages';
+
+describe('createPage', () => {
+  test('should start empty with its own history', () => {
+    const a = createPage();
+    const b = createPage();
+
+    expect(a.strokes).toEqual([]);
+    expect(a.height).toBe(0);
+    expect(a.history).not.toBe(b.history);
+
+    a.history.record([]);
+    expect(a.history.canUndo()).toBe(true);
+    expect(b.history.canUndo()).toBe(false);
+  });
+});
+
+describe('joinPageTexts', () => {
+  test('should join pages in order with the separator', () => {
+    expect(joinPageTexts(['first', 'second', 'third'])).toBe(
+      `first${PAGE_SEPARATOR}second${PAGE_SEPARATOR}third`
+    );
+  });
+
+  test('should skip pages without text', () => {
+    expect(joinPageTexts(['first', '  ', '', 'last'], ' | ')).toBe('first | last');
+  });
+
+  test('should trim each page', () => {
+    expect(joinPageTexts(['\nhello \n', ' world'], ' ')).toBe('hello world');
+  });
+
+  test('should return an empty string when no page has text', () => {
+    expect(joinPageTexts([])).toBe('');
+    expect(joinPageTexts(['', ' '])).toBe('');
+  });
+});
@@ -0,0 +1,148 @@
+import { groupStrokesIntoLines, splitMarker, detectBox, analyzeInkLines, inkLinesToMarkdown, InkLine } from '../inkStructure';
+import { Stroke } from '../myScriptService';
+
+function path(...coords: Array<[number, number]>): Stroke {
+  return { points: coords.map(([x, y], i) => ({ x, y, t: i * 10 })) };
+}
+
+// Handwriting stand-in: a zig-zag filling the given box
+function word(x: number, y: number, width: number, height: number): Stroke {
+  const coords: Array<[number, number]> = [];
+  for (let i = 0; i * 5 <= width; i++) {
+    coords.push([x + i * 5, i % 2 === 0 ? y + height : y]);
+  }
+  return path(...coords);
+}
+
+function square(x: number, y: number, size: number): Stroke {
+  return path([x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]);
+}
+
+function circle(cx: number, cy: number, r: number): Stroke {
+  const coords: Array<[number, number]> = [];
+  for (let i = 0; i <= 32; i++) {
+    const angle = (i / 32) * Math.PI * 2;
+    coords.push([cx + Math.cos(angle) * r, cy + Math.sin(angle) * r]);
+  }
+  return path(...coords);
+}
+
+describe('groupStrokesIntoLines', () => {
+  test('should split lines and attach an underline to the line above', () => {
+    const first = word(0, 0, 100, 20);
+    const second = word(0, 60, 80, 20);
+    const underline = path([0, 26], [110, 28]);
+
+    const lines = groupStrokesIntoLines([second, first, underline]);
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toEqual({ strokes: [first], underlines: [underline] });
+    expect(lines[1]).toEqual({ strokes: [second], underlines: [] });
+  });
+
+  test('should order strokes left to right and keep a lone rule as ink', () => {
+    const right = word(80, 0, 40, 20);
+    const left = word(0, 2, 40, 18);
+    const rule = path([0, 200], [300, 201]);
+
+    const lines = groupStrokesIntoLines([right, left, rule]);
+
+    expect(lines.map(line => line.strokes)).toEqual([[left, right], [rule]]);
+  });
+});
+
+describe('detectBox', () => {
+  test('should tell boxes from circles', () => {
+    expect(detectBox([square(0, 0, 20)])).toEqual({ box: true, filled: false });
+    expect(detectBox([circle(10, 10, 10)]).box).toBe(false);
+  });
+
+  test('should accept a box drawn side by side and notice a tick inside', () => {
+    const sides = [path([0, 0], [20, 0]), path([20, 0], [20, 20]), path([20, 20], [0, 20]), path([0, 20], [0, 0])];
+    expect(detectBox(sides)).toEqual({ box: true, filled: false });
+    expect(detectBox([...sides, path([5, 10], [9, 15], [16, 4])])).toEqual({ box: true, filled: true });
+  });
+});
+
+describe('splitMarker', () => {
+  const text = word(40, 0, 100, 24);
+
+  test('should find a dot, a dash or a box before the writing', () => {
+    expect(splitMarker([path([10, 10], [12, 12]), text]).marker).toBe('bullet');
+    expect(splitMarker([path([5, 12], [22, 13]), text]).marker).toBe('bullet');
+    expect(splitMarker([square(4, 2, 20), text]).marker).toBe('task');
+    expect(splitMarker([square(4, 2, 20), path([8, 6], [20, 18]), path([20, 6], [8, 18]), text]).marker).toBe('done');
+  });
+
+  test('should take the writing without the marker', () => {
+    const box = square(4, 2, 20);
+    expect(splitMarker([text, box])).toEqual({ marker: 'task', markerStrokes: [box], text: [text] });
+  });
+
+  test('should ignore letters and marks without a gap', () => {
+    expect(splitMarker([circle(14, 12, 10), text]).marker).toBeNull();
+    expect(splitMarker([path([36, 10], [38, 12]), text]).marker).toBeNull();
+    expect(splitMarker([text]).marker).toBeNull();
+  });
+});
+
+describe('inkLinesToMarkdown', () => {
+  function line(minX: number, height: number, extra: Partial<InkLine> = {}): InkLine {
+    return {
+      strokes: [],
+      bounds: { minX, minY: 0, maxX: minX + 100, maxY: height },
+      marker: null,
+      markerX: minX,
+      underlined: false,
+      ...extra,
+    };
+  }
+
+  test('should build headings, nested lists and tasks', () => {
+    const lines = [
+      line(0, 50),
+      line(0, 20, { underlined: true }),
+      line(20, 20, { marker: 'bullet', markerX: 0 }),
+      line(50, 20, { marker: 'bullet', markerX: 30 }),
+      line(20, 20, { marker: 'task', markerX: 0 }),
+      line(20, 20, { marker: 'done', markerX: 0 }),
+      line(0, 20),
+    ];
+    const texts = ['Groceries', 'Today', 'fruit', 'apples  and\npears', 'call mum', 'pay rent', 'Thanks'];
+
+    expect(inkLinesToMarkdown(lines, texts)).toBe([
+      '# Groceries',
+      '## Today',
+      '- fruit',
+      '  - apples and pears',
+      '- [ ] call mum',
+      '- [x] pay rent',
+      'Thanks',
+    ].join('\n'));
+  });
+
+  test('should not make a lone line a heading, and skip lines without text', () => {
+    expect(inkLinesToMarkdown([line(0, 80)], ['Big'])).toBe('Big');
+    expect(inkLinesToMarkdown([line(0, 20), line(0, 20)], ['a', ' '])).toBe('a');
+  });
+});
+
+describe('analyzeInkLines', () => {
+  test('should find the structure of a written task list', () => {
+    const title = word(0, 0, 200, 60);
+    const underline = path([0, 66], [210, 68]);
+    const box = square(0, 100, 20);
+    const task = word(40, 98, 120, 24);
+    const dot = path([2, 160], [4, 162]);
+    const item = word(40, 150, 90, 24);
+
+    const lines = analyzeInkLines([title, underline, box, task, dot, item]);
+
+    expect(lines.map(line => [line.marker, line.underlined, line.strokes])).toEqual([
+      [null, true, [title]],
+      ['task', false, [task]],
+      ['bullet', false, [item]],
+    ]);
+    expect(inkLinesToMarkdown(lines, ['Plan', 'write tests', 'ship'])).toBe('# Plan\n- [ ] write tests\n- ship');
+  });
+});
@@ -0,0 +1,28 @@
+import { formatInsertText } from '../insertFormat';
+
+describe('formatInsertText', () => {
+  const text = '  Shopping\n\nmilk \n- eggs\n';
+
+  test('should keep line breaks without blank lines', () => {
+    expect(formatInsertText(text, 'lines')).toBe('Shopping\nmilk\n- eggs');
+  });
+
+  test('should join lines into a single paragraph', () => {
+    expect(formatInsertText(text, 'paragraph')).toBe('Shopping milk - eggs');
+  });
+
+  test('should make a list item of each line without doubling markers', () => {
+    expect(formatInsertText(text, 'bullets')).toBe('- Shopping\n- milk\n- eggs');
+    expect(formatInsertText('[ ] call\n• write', 'tasks')).toBe('- [ ] call\n- [ ] write');
+  });
+
+  test('should quote every line', () => {
+    expect(formatInsertText(text, 'quote')).toBe('> Shopping\n> milk\n> - eggs');
+    expect(formatInsertText(text, 'callout')).toBe('> [!note]\n> Shopping\n> milk\n> - eggs');
+  });
+
+  test('should return nothing for empty text', () => {
+    expect(formatInsertText(' \n ', 'callout')).toBe('');
+    expect(formatInsertText('', 'bullets')).toBe('');
+  });
+});
@@ -0,0 +1,29 @@
+import { stripMathDelimiters, wrapLatex } from '../latex';
+
+describe('stripMathDelimiters', () => {
+  test('should remove any kind of math delimiters', () => {
+    expect(stripMathDelimiters('$$ x^2 $$')).toBe('x^2');
+    expect(stripMathDelimiters('$x^2$')).toBe('x^2');
+    expect(stripMathDelimiters('\\(x^2\\)')).toBe('x^2');
+    expect(stripMathDelimiters('\\[x^2\\]')).toBe('x^2');
+  });
+
+  test('should leave undelimited LaTeX alone', () => {
+    expect(stripMathDelimiters(' \\frac{a}{b} ')).toBe('\\frac{a}{b}');
+    expect(stripMathDelimiters('a$ + $b')).toBe('a$ + $b');
+  });
+});
+
+describe('wrapLatex', () => {
+  test('should wrap inline math on one line', () => {
+    expect(wrapLatex('a \\\\\n b', false)).toBe('$a \\\\ b$');
+  });
+
+  test('should put display math in a block', () => {
+    expect(wrapLatex('$x = 1$', true)).toBe('$$\nx = 1\n$$');
+  });
+
+  test('should return nothing for empty LaTeX', () => {
+    expect(wrapLatex('  ', true)).toBe('');
+  });
+});
@@ -0,0 +1,67 @@
+import { jiixToMermaid } from '../mermaidDiagram';
+
+function box(x: number, y: number, width: number, height: number) {
+  return { x, y, width, height };
+}
+
+describe('jiixToMermaid', () => {
+  test('should turn shapes, arrows and labels into a flowchart', () => {
+    const jiix = {
+      type: 'Diagram',
+      elements: [
+        // Drawn out of reading order on purpose
+        { type: 'Node', id: 7, kind: 'rhombus', 'bounding-box': box(0, 100, 60, 40) },
+        { type: 'Node', id: 3, kind: 'rectangle', 'bounding-box': box(0, 0, 60, 30) },
+        { type: 'Text', id: 8, label: 'Start', 'bounding-box': box(10, 5, 30, 10) },
+        { type: 'Text', id: 9, label: 'OK?', 'bounding-box': box(15, 110, 20, 10) },
+        { type: 'Edge', id: 5, kind: 'line', connected: [3, 7], p2Decoration: 'arrow-head', 'bounding-box': box(28, 30, 4, 70) },
+        { type: 'Text', id: 10, label: 'go', 'bounding-box': box(36, 60, 12, 8) },
+      ],
+    };
+
+    expect(jiixToMermaid(jiix)).toBe([
+      'flowchart TD',
+      '    n1["Start"]',
+      '    n2{"OK?"}',
+      '    n1 -->|"go"| n2',
+    ].join('\n'));
+  });
+
+  test('should follow the arrow direction and lay out wide drawings left to right', () => {
+    const jiix = {
+      elements: [
+        { type: 'Node', id: 'a', kind: 'circle', 'bounding-box': box(0, 0, 40, 40) },
+        { type: 'Node', id: 'b', kind: 'ellipse', 'bounding-box': box(200, 0, 60, 40) },
+        { type: 'Node', id: 'c', kind: 'star', 'bounding-box': box(400, 0, 40, 40) },
+        { type: 'Edge', connected: ['a', 'b'], p1Decoration: 'arrow-head' },
+        { type: 'Edge', connected: ['b', 'c'] },
+        { type: 'Edge', connected: ['c'] },
+      ],
+    };
+
+    expect(jiixToMermaid(jiix)).toBe([
+      'flowchart LR',
+      '    n1((" "))',
+      '    n2([" "])',
+      '    n3[" "]',
+      '    n2 --> n1',
+      '    n2 --- n3',
+    ].join('\n'));
+  });
+
+  test('should find shapes in groups and keep stray text as a node', () => {
+    const jiix = {
+      elements: [
+        { type: 'Group', elements: [{ type: 'Node', id: 1, kind: 'rectangle', label: 'Say "hi"', 'bounding-box': box(0, 0, 50, 20) }] },
+        { type: 'Text', label: 'note', 'bounding-box': box(0, 100, 20, 10) },
+      ],
+    };
+
+    expect(jiixToMermaid(jiix)).toBe('flowchart TD\n    n1["Say #quot;hi#quot;"]\n    n2["note"]');
+  });
+
+  test('should return null for an empty diagram', () => {
+    expect(jiixToMermaid({ elements: [] })).toBeNull();
+    expect(jiixToMermaid(null)).toBeNull();
+  });
+});
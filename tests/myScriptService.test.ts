@@ -1,4 +1,5 @@
 import { MyScriptService, Stroke, StrokePoint } from '../myScriptService';
+import { simplifyStroke } from '../strokeGeometry';
 import { Notice, requestUrl } from 'obsidian';
 
 // Mock Obsidian
@@ -140,6 +141,129 @@ describe('MyScriptService', () => {
     });
   });
 
+  describe('recognizeStrokes', () => {
+    const strokes: Stroke[] = [{
+      points: [
+        { x: 10, y: 20, t: 0, p: 0.5 },
+        { x: 15, y: 25, t: 100, p: 0.5 },
+      ]
+    }];
+
+    beforeEach(() => {
+      (requestUrl as jest.Mock).mockResolvedValue({
+        status: 200,
+        json: { label: 'hello' },
+      });
+    });
+
+    test('should return the recognized label', async () => {
+      await expect(service.recognizeStrokes(strokes)).resolves.toBe('hello');
+      expect(Notice).toHaveBeenCalled();
+    });
+
+    test('should not show notices when silent', async () => {
+      await expect(service.recognizeStrokes(strokes, { silent: true })).resolves.toBe('hello');
+      expect(Notice).not.toHaveBeenCalled();
+    });
+
+    test('should return words with their candidates', async () => {
+      (requestUrl as jest.Mock).mockResolvedValue({
+        status: 200,
+        json: {
+          label: 'hello world',
+          words: [
+            { label: 'hello', candidates: ['hello', 'hells', 'hallo'] },
+            { label: ' ' },
+            { label: 'world', candidates: ['world', 'wand'] },
+          ],
+        },
+      });
+
+      const result = await service.recognizeStrokesDetailed(strokes, { silent: true });
+
+      expect(result.text).toBe('hello world');
+      expect(result.words).toEqual([
+        { label: 'hello', candidates: ['hello', 'hells', 'hallo'] },
+        { label: ' ', candidates: [] },
+        { label: 'world', candidates: ['world', 'wand'] },
+      ]);
+    });
+  });
+
+  describe('recognizeMath', () => {
+    const strokes: Stroke[] = [{
+      points: [
+        { x: 10, y: 20, t: 0, p: 0.5 },
+        { x: 15, y: 25, t: 100, p: 0.5 },
+      ]
+    }];
+
+    test('should request LaTeX with the Math content type', async () => {
+      (requestUrl as jest.Mock).mockResolvedValue({ status: 200, text: ' \\frac{a}{b}\n' });
+
+      await expect(service.recognizeMath(strokes, { silent: true })).resolves.toBe('\\frac{a}{b}');
+
+      const request = (requestUrl as jest.Mock).mock.calls[0][0];
+      const body = JSON.parse(request.body);
+      expect(request.headers.Accept).toBe('application/x-latex');
+      expect(body.contentType).toBe('Math');
+      expect(body.configuration.math.solver.enable).toBe(false);
+    });
+
+    test('should not send a request without strokes', async () => {
+      await expect(service.recognizeMath([], { silent: true })).resolves.toBe('');
+      expect(requestUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recognizeDiagram', () => {
+    test('should request JIIX with element boxes for the Diagram content type', async () => {
+      const diagram = { type: 'Diagram', elements: [{ type: 'Node', id: 1, kind: 'rectangle' }] };
+      (requestUrl as jest.Mock).mockResolvedValue({ status: 200, json: diagram });
+      const strokes: Stroke[] = [{ points: [{ x: 0, y: 0, t: 0 }, { x: 50, y: 0, t: 50 }] }];
+
+      await expect(service.recognizeDiagram(strokes, { silent: true })).resolves.toBe(diagram);
+
+      const body = JSON.parse((requestUrl as jest.Mock).mock.calls[0][0].body);
+      expect(body.contentType).toBe('Diagram');
+      expect(body.configuration.export.jiix['bounding-box']).toBe(true);
+    });
+  });
+
+  describe('Payload size', () => {
+    // A handwritten loop sampled densely, like a fast digitizer produces
+    function denseStroke(): Stroke {
+      const points: StrokePoint[] = [];
+      for (let i = 0; i < 400; i++) {
+        const angle = (i / 400) * Math.PI * 4;
+        points.push({
+          x: 200 + i * 0.5 + Math.cos(angle) * 40,
+          y: 200 + Math.sin(angle) * 40,
+          t: i * 4,
+          p: 0.5,
+        });
+      }
+      return { points };
+    }
+
+    test('should shrink the JIIX payload when strokes are simplified', () => {
+      const strokes = [denseStroke(), denseStroke()];
+      const simplified = strokes.map(stroke => simplifyStroke(stroke, 1));
+
+      const before = JSON.stringify((service as any).strokesToJIIX(strokes, 'en_US')).length;
+      const after = JSON.stringify((service as any).strokesToJIIX(simplified, 'en_US')).length;
+
+      // About 13.4 kB raw, 1.7 kB simplified
+      expect(before).toBeGreaterThan(13000);
+      expect(after).toBeLessThan(2000);
+      // Timestamps survive simplification, in order
+      const t = (service as any).strokesToJIIX(simplified, 'en_US').strokeGroups[0].strokes[0].t;
+      expect(t[0]).toBe(0);
+      expect(t[t.length - 1]).toBe(399 * 4);
+      expect([...t].sort((a: number, b: number) => a - b)).toEqual(t);
+    });
+  });
+
   describe('isConfigured', () => {
     test('should return true when API key is set', () => {
       expect(service.isConfigured()).toBe(true);
@@ -0,0 +1,37 @@
+import { fillTemplate, appendToText, dailyNotePath } from '../noteTarget';
+
+describe('fillTemplate', () => {
+  test('should replace known placeholders and keep unknown ones', () => {
+    const values = { text: 'Call Anna', time: '09:30', engine: 'MyScript' };
+
+    expect(fillTemplate('- {{time}} {{ text }} ({{engine}}) {{mood}}', values)).toBe('- 09:30 Call Anna (MyScript) {{mood}}');
+  });
+
+  test('should insert text containing $ patterns literally', () => {
+    expect(fillTemplate('{{text}}', { text: 'costs $& $1' })).toBe('costs $& $1');
+  });
+});
+
+describe('appendToText', () => {
+  test('should start an empty note with the entry', () => {
+    expect(appendToText('', 'entry')).toBe('entry\n');
+    expect(appendToText('\n\n', 'entry')).toBe('entry\n');
+  });
+
+  test('should add the entry on a new line', () => {
+    expect(appendToText('# Inbox', 'entry')).toBe('# Inbox\nentry\n');
+    expect(appendToText('# Inbox\n\n\n', 'entry')).toBe('# Inbox\nentry\n');
+  });
+});
+
+describe('dailyNotePath', () => {
+  const formatDate = (format: string) => `<${format}>`;
+
+  test('should use the default format without options', () => {
+    expect(dailyNotePath({}, formatDate)).toBe('<YYYY-MM-DD>.md');
+  });
+
+  test('should use the configured folder and format', () => {
+    expect(dailyNotePath({ folder: 'Journal/', format: 'YYYY/MM/DD' }, formatDate)).toBe('Journal/<YYYY/MM/DD>.md');
+  });
+});
@@ -77,7 +77,7 @@ describe('OcrService', () => {
 
         expect(createWorker).toHaveBeenCalledWith('eng', 1, expect.any(Object));
         expect(mockWorker.setParameters).toHaveBeenCalledWith(expect.any(Object));
-        expect(result).toBe('Recognized Text');
+        expect(result.text).toBe('Recognized Text');
     });
 
     test('should use print mode when handwriting=false', async () => {
@@ -93,7 +93,7 @@ describe('OcrService', () => {
         const result = await service.recognize('image.png', { handwriting: true });
 
         expect(mockWorker.recognize).toHaveBeenCalled();
-        expect(result).toBe('Recognized Text');
+        expect(result.text).toBe('Recognized Text');
     });
 
     test('should handle data URL conversion', async () => {
@@ -107,6 +107,35 @@ describe('OcrService', () => {
         expect(callArg instanceof Uint8Array).toBe(true);
     });
 
+    test('should return words with confidence, bounding box and alternatives', async () => {
+        mockWorker.recognize.mockResolvedValue({
+            data: {
+                text: 'Hello world\nagain',
+                lines: [
+                    { words: [
+                        {
+                            text: 'Hello', confidence: 91, bbox: { x0: 20, y0: 20, x1: 80, y1: 50 },
+                            choices: [{ text: 'Hello', confidence: 91 }, { text: 'Hallo', confidence: 60 }],
+                        },
+                        { text: 'world', confidence: 48, choices: [] },
+                    ] },
+                    { words: [{ text: 'again' }] },
+                ],
+            },
+        });
+
+        const result = await service.recognize('image.png');
+
+        expect(result.text).toBe('Hello world\nagain');
+        expect(result.words).toEqual([
+            { label: 'Hello', candidates: ['Hello', 'Hallo'], confidence: 91, bounds: { minX: 20, minY: 20, maxX: 80, maxY: 50 } },
+            { label: ' ', candidates: [] },
+            { label: 'world', candidates: ['world'], confidence: 48 },
+            { label: '\n', candidates: [] },
+            { label: 'again', candidates: ['again'] },
+        ]);
+    });
+
     test('should throw error on recognition failure', async () => {
         mockWorker.recognize.mockRejectedValueOnce(new Error('OCR Failed'));
 
@@ -0,0 +1,80 @@
+import { drawPaperTemplate, ruledLineIndex, groupStrokesByRuledLine } from '../paperTemplate';
+import { Stroke } from '../myScriptService';
+
+function stroke(x: number, top: number, bottom: number): Stroke {
+  return { points: [{ x, y: top, t: 0 }, { x, y: bottom, t: 10 }] };
+}
+
+describe('paperTemplate', () => {
+  describe('ruledLineIndex', () => {
+    test('should place a stroke on the line band containing its centre', () => {
+      expect(ruledLineIndex(stroke(0, 40, 60), 32)).toBe(1);
+      expect(ruledLineIndex(stroke(0, 5, 25), 32)).toBe(0);
+    });
+
+    test('should not move a stroke with a descender to the next line', () => {
+      // Body sits in band 1 (32-64), the descender reaches into band 2
+      expect(ruledLineIndex(stroke(0, 40, 76), 32)).toBe(1);
+    });
+  });
+
+  describe('groupStrokesByRuledLine', () => {
+    test('should group strokes line by line, top to bottom', () => {
+      const line2a = stroke(10, 70, 90);
+      const line1a = stroke(10, 40, 60);
+      const line1b = stroke(50, 38, 62);
+      const line2b = stroke(60, 72, 92);
+
+      // Written out of order: a correction on line 1 after starting line 2
+      const lines = groupStrokesByRuledLine([line1a, line2a, line1b, line2b], 32);
+      expect(lines).toEqual([[line1a, line1b], [line2a, line2b]]);
+    });
+
+    test('should return no lines for no strokes', () => {
+      expect(groupStrokesByRuledLine([], 32)).toEqual([]);
+    });
+  });
+
+  describe('drawPaperTemplate', () => {
+    function mockContext() {
+      return {
+        save: jest.fn(),
+        restore: jest.fn(),
+        beginPath: jest.fn(),
+        moveTo: jest.fn(),
+        lineTo: jest.fn(),
+        arc: jest.fn(),
+        fill: jest.fn(),
+        stroke: jest.fn(),
+      } as any;
+    }
+    const visible = { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+
+    test('should draw nothing for blank paper', () => {
+      const ctx = mockContext();
+      drawPaperTemplate(ctx, 'blank', 25, visible, 1);
+      expect(ctx.stroke).not.toHaveBeenCalled();
+      expect(ctx.fill).not.toHaveBeenCalled();
+    });
+
+    test('should draw horizontal rules for lined paper', () => {
+      const ctx = mockContext();
+      drawPaperTemplate(ctx, 'lined', 25, visible, 1);
+      // Rules at y = 25, 50, 75, 100
+      expect(ctx.moveTo).toHaveBeenCalledTimes(4);
+      expect(ctx.moveTo).toHaveBeenCalledWith(0, 25);
+    });
+
+    test('should add vertical lines for grid paper', () => {
+      const ctx = mockContext();
+      drawPaperTemplate(ctx, 'grid', 25, visible, 1);
+      expect(ctx.moveTo).toHaveBeenCalledTimes(8);
+    });
+
+    test('should draw dots at grid intersections', () => {
+      const ctx = mockContext();
+      drawPaperTemplate(ctx, 'dotted', 50, visible, 1);
+      expect(ctx.arc).toHaveBeenCalledTimes(4);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { EngineRegistry, RecognitionEngine, recognizeInk, InkInput } from '../recognitionEngine';
+
+function engine(id: string, overrides: Partial<RecognitionEngine> = {}): RecognitionEngine {
+  return {
+    id,
+    name: id.toUpperCase(),
+    label: `${id} engine`,
+    capabilities: { strokes: true, bitmaps: true, math: false, diagrams: false },
+    isReady: () => true,
+    language: () => 'en',
+    recognizeStrokes: jest.fn().mockResolvedValue({ text: 'from strokes', words: [] }),
+    recognizeBitmap: jest.fn().mockResolvedValue({ text: 'from bitmap', words: [] }),
+    ...overrides,
+  };
+}
+
+describe('EngineRegistry', () => {
+  test('should list engines in registration order for the dropdown', () => {
+    const registry = new EngineRegistry();
+    registry.register(engine('local'));
+    registry.register(engine('cloud'));
+
+    expect(registry.options()).toEqual({ local: 'local engine', cloud: 'cloud engine' });
+    expect(registry.get('cloud')?.name).toBe('CLOUD');
+    expect(() => registry.register(engine('local'))).toThrow('already registered');
+  });
+
+  test('should pick the preferred engine only if it is ready and capable', () => {
+    const registry = new EngineRegistry();
+    const local = engine('local', { capabilities: { strokes: false, bitmaps: true, math: false, diagrams: false } });
+    const cloud = engine('cloud', { capabilities: { strokes: true, bitmaps: true, math: true, diagrams: false } });
+    registry.register(local);
+    registry.register(cloud);
+
+    expect(registry.pick('cloud', 'bitmaps')).toBe(cloud);
+    expect(registry.pick('local', 'math')).toBe(cloud);
+    cloud.isReady = () => false;
+    expect(registry.pick('cloud', 'bitmaps')).toBe(local);
+    expect(registry.pick('cloud', 'math')).toBeNull();
+  });
+
+  test('should name the engines with a capability', () => {
+    const registry = new EngineRegistry();
+    registry.register(engine('local'));
+    registry.register(engine('cloud', { capabilities: { strokes: true, bitmaps: true, math: true, diagrams: false } }));
+    registry.register(engine('other', { capabilities: { strokes: true, bitmaps: false, math: true, diagrams: false } }));
+
+    expect(registry.names('math')).toBe('CLOUD or OTHER');
+    expect(registry.names('diagrams')).toBe('no installed engine');
+  });
+
+  test('should read images with a capable engine', async () => {
+    const registry = new EngineRegistry();
+    const strokesOnly = engine('ink', { capabilities: { strokes: true, bitmaps: false, math: false, diagrams: false } });
+    const local = engine('local');
+    registry.register(strokesOnly);
+    registry.register(local);
+
+    await expect(registry.recognizeImage('ink', new ArrayBuffer(4), 'image/png')).resolves.toMatchObject({ text: 'from bitmap' });
+    expect(local.recognizeBitmap).toHaveBeenCalledWith(expect.any(ArrayBuffer), 'image/png', {});
+    await expect(new EngineRegistry().recognizeImage('ink', new ArrayBuffer(4), 'image/png')).rejects.toThrow('No configured engine');
+  });
+});
+
+describe('recognizeInk', () => {
+  function input(strokeCount: number = 1): InkInput & { bitmap: jest.Mock } {
+    const strokes = Array.from({ length: strokeCount }, () => ({ points: [{ x: 0, y: 0, t: 0 }] }));
+    return { strokes: () => strokes, bitmap: jest.fn().mockReturnValue('data:image/png;base64,') };
+  }
+  const routing = { useStrokes: true, fallbackToBitmap: true };
+
+  test('should send strokes when the engine takes them', async () => {
+    const ink = input();
+    await expect(recognizeInk(engine('e'), ink, {}, routing)).resolves.toEqual({ text: 'from strokes', words: [] });
+    expect(ink.bitmap).not.toHaveBeenCalled();
+  });
+
+  test('should use the bitmap without strokes or when stroke use is off', async () => {
+    await expect(recognizeInk(engine('e'), input(0), {}, routing)).resolves.toMatchObject({ text: 'from bitmap' });
+    await expect(recognizeInk(engine('e'), input(), {}, { ...routing, useStrokes: false })).resolves.toMatchObject({ text: 'from bitmap' });
+  });
+
+  test('should fall back to the bitmap only if allowed', async () => {
+    const failing = () => engine('e', { recognizeStrokes: jest.fn().mockRejectedValue(new Error('offline')) });
+
+    await expect(recognizeInk(failing(), input(), {}, routing)).resolves.toMatchObject({ text: 'from bitmap' });
+    await expect(recognizeInk(failing(), input(), {}, { ...routing, fallbackToBitmap: false })).rejects.toThrow('offline');
+  });
+
+  test('should route to the only input a one-sided engine takes', async () => {
+    const bitmapOnly = engine('b', { capabilities: { strokes: false, bitmaps: true, math: false, diagrams: false } });
+    const strokesOnly = engine('s', { capabilities: { strokes: true, bitmaps: false, math: false, diagrams: false } });
+
+    await expect(recognizeInk(bitmapOnly, input(), {}, routing)).resolves.toMatchObject({ text: 'from bitmap' });
+    await expect(recognizeInk(strokesOnly, input(), {}, { ...routing, useStrokes: false })).resolves.toMatchObject({ text: 'from strokes' });
+    await expect(recognizeInk(strokesOnly, input(0), {}, routing)).resolves.toEqual({ text: '', words: [] });
+  });
+
+  test('should refuse an engine that is not configured', async () => {
+    await expect(recognizeInk(engine('e', { isReady: () => false }), input(), {}, routing)).rejects.toThrow('E is not configured');
+  });
+});
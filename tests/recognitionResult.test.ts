@@ -0,0 +1,100 @@
+import {
+  parseJiixWords, jiixResult, textToWords, wordsToText, tesseractWords, isWordToken,
+  isLowConfidence, hasLowConfidence, highlightLowConfidence,
+} from '../recognitionResult';
+
+describe('textToWords', () => {
+  test('should keep whitespace as tokens so the text can be rebuilt', () => {
+    const text = 'Buy milk,  eggs\nand bread';
+    const words = textToWords(text);
+
+    expect(wordsToText(words)).toBe(text);
+    expect(words.filter(isWordToken).map(word => word.label)).toEqual(['Buy', 'milk,', 'eggs', 'and', 'bread']);
+    expect(words[1]).toEqual({ label: ' ', candidates: [] });
+    expect(words[0]).toEqual({ label: 'Buy', candidates: ['Buy'] });
+  });
+
+  test('should return no tokens for empty text', () => {
+    expect(textToWords('')).toEqual([]);
+  });
+});
+
+describe('parseJiixWords', () => {
+  test('should read words and candidates, label first', () => {
+    const words = parseJiixWords({
+      label: 'to do',
+      words: [
+        { label: 'to', candidates: ['tu', 'to', 'fo'] },
+        { label: ' ', candidates: [' '] },
+        { label: 'do' },
+      ],
+    });
+
+    expect(words).toEqual([
+      { label: 'to', candidates: ['to', 'tu', 'fo'] },
+      { label: ' ', candidates: [] },
+      { label: 'do', candidates: ['do'] },
+    ]);
+  });
+
+  test('should read words nested under text', () => {
+    expect(parseJiixWords({ text: { label: 'a', words: [{ label: 'a' }] } })).toEqual([{ label: 'a', candidates: ['a'] }]);
+  });
+
+  test('should return null without words', () => {
+    expect(parseJiixWords({ label: 'hello' })).toBeNull();
+    expect(parseJiixWords(null)).toBeNull();
+  });
+});
+
+describe('jiixResult', () => {
+  test('should use the JIIX words when they match the label', () => {
+    const result = jiixResult({ words: [{ label: 'hi', candidates: ['hi', 'hl'] }] }, 'hi');
+    expect(result).toEqual({ text: 'hi', words: [{ label: 'hi', candidates: ['hi', 'hl'] }] });
+  });
+
+  test('should fall back to the plain label when words are missing or differ', () => {
+    expect(jiixResult({}, 'hi there').words).toEqual(textToWords('hi there'));
+    expect(jiixResult({ words: [{ label: 'other' }] }, 'hi').words).toEqual(textToWords('hi'));
+  });
+});
+
+describe('tesseractWords', () => {
+  test('should join words with spaces and lines with line breaks', () => {
+    const words = tesseractWords([
+      { words: [{ text: 'one' }, { text: 'two', choices: [{ text: 'two' }, { text: 'tw0' }] }] },
+      { words: [{ text: 'three' }] },
+    ]);
+
+    expect(wordsToText(words)).toBe('one two\nthree');
+    expect(words[2]).toEqual({ label: 'two', candidates: ['two', 'tw0'] });
+  });
+
+  test('should keep confidence and bounding box', () => {
+    const [word] = tesseractWords([{ words: [{ text: 'ink', confidence: 42.5, bbox: { x0: 20, y0: 30, x1: 60, y1: 55 } }] }]);
+
+    expect(word.confidence).toBe(42.5);
+    expect(word.bounds).toEqual({ minX: 20, minY: 30, maxX: 60, maxY: 55 });
+  });
+});
+
+describe('Low-confidence words', () => {
+  const words = [
+    { label: 'sure', candidates: ['sure'], confidence: 95 },
+    { label: ' ', candidates: [], confidence: 10 },
+    { label: 'maybe', candidates: ['maybe'], confidence: 40 },
+    { label: ' ', candidates: [] },
+    { label: 'unknown', candidates: ['unknown'] },
+  ];
+
+  test('should only count words under the threshold with a confidence', () => {
+    expect(words.map(word => isLowConfidence(word, 60))).toEqual([false, false, true, false, false]);
+    expect(hasLowConfidence(words, 60)).toBe(true);
+    expect(hasLowConfidence(words, 40)).toBe(false);
+  });
+
+  test('should highlight low-confidence words without touching the input', () => {
+    expect(wordsToText(highlightLowConfidence(words, 60))).toBe('sure ==maybe== unknown');
+    expect(words[2].label).toBe('maybe');
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  SessionStore,
+  InkSession,
+  parseSessionData,
+  addToHistory,
+  describeSession,
+  isEmptySession,
+} from '../sessionStore';
+import { InkStroke } from '../strokeRenderer';
+
+function stroke(x: number): InkStroke {
+  return { points: [{ x, y: 0, t: 0, p: 0.5 }, { x: x + 10, y: 5, t: 16, p: 0.6 }] };
+}
+
+function session(savedAt: number, pages: InkStroke[][]): InkSession {
+  return { savedAt, pageIndex: 0, pages };
+}
+
+describe('parseSessionData', () => {
+  test('should read back what was saved', () => {
+    const styled: InkStroke = { ...stroke(1), style: { color: '#1e4fd8', width: 7, highlighter: false } };
+    const data = {
+      current: { savedAt: 1000, pageIndex: 1, pages: [[stroke(0)], [styled]] },
+      history: [session(500, [[stroke(2)]])],
+    };
+
+    expect(parseSessionData(JSON.parse(JSON.stringify(data)))).toEqual(data);
+  });
+
+  test('should return empty data for missing or malformed input', () => {
+    expect(parseSessionData(undefined)).toEqual({ current: null, history: [] });
+    expect(parseSessionData('nonsense')).toEqual({ current: null, history: [] });
+    expect(parseSessionData({ current: { pages: 'x' }, history: {} })).toEqual({ current: null, history: [] });
+  });
+
+  test('should drop malformed strokes and points', () => {
+    const data = parseSessionData({
+      current: {
+        savedAt: 1,
+        pageIndex: 0,
+        pages: [[
+          stroke(0),
+          { points: [{ x: 'a', y: 0, t: 0 }] },
+          { points: [{ x: 1, y: 2, t: 3 }, null] },
+          null,
+        ]],
+      },
+    });
+
+    expect(data.current!.pages[0]).toEqual([stroke(0), { points: [{ x: 1, y: 2, t: 3 }] }]);
+  });
+
+  test('should keep the page index within the pages', () => {
+    const data = parseSessionData({ current: { savedAt: 1, pageIndex: 7, pages: [[], []] } });
+    expect(data.current!.pageIndex).toBe(1);
+  });
+});
+
+describe('addToHistory', () => {
+  test('should add newest first and keep at most limit entries', () => {
+    let history: InkSession[] = [];
+    history = addToHistory(history, session(1, [[stroke(0)]]), 2);
+    history = addToHistory(history, session(2, [[stroke(0)]]), 2);
+    history = addToHistory(history, session(3, [[stroke(0)]]), 2);
+
+    expect(history.map(entry => entry.savedAt)).toEqual([3, 2]);
+  });
+
+  test('should leave out empty sessions', () => {
+    const history = addToHistory([session(1, [[stroke(0)]])], session(2, [[], []]), 5);
+    expect(history.map(entry => entry.savedAt)).toEqual([1]);
+  });
+
+  test('should keep nothing with a limit of 0', () => {
+    expect(addToHistory([], session(1, [[stroke(0)]]), 0)).toEqual([]);
+  });
+});
+
+describe('describeSession', () => {
+  test('should count pages and strokes', () => {
+    expect(describeSession(session(0, [[stroke(0), stroke(1)], [stroke(2)]]))).toBe('2 pages, 3 strokes');
+    expect(describeSession(session(0, [[stroke(0)]]))).toBe('1 page, 1 stroke');
+    expect(isEmptySession(session(0, [[]]))).toBe(true);
+  });
+});
+
+describe('SessionStore', () => {
+  let files: Map<string, string>;
+  let store: SessionStore;
+
+  beforeEach(() => {
+    files = new Map();
+    const app: any = {
+      vault: {
+        adapter: {
+          exists: jest.fn(async (path: string) => files.has(path)),
+          read: jest.fn(async (path: string) => files.get(path)),
+          write: jest.fn(async (path: string, data: string) => { files.set(path, data); }),
+        },
+      },
+    };
+    store = new SessionStore(app, 'plugins/oocr/sessions.json');
+  });
+
+  test('should start empty when nothing was saved', async () => {
+    await store.load();
+    expect(store.getCurrent()).toBeNull();
+    expect(store.getHistory()).toEqual([]);
+  });
+
+  test('should save and load the current session and history', async () => {
+    const current = session(2, [[stroke(0)]]);
+    await store.archive(session(1, [[stroke(5)]]), 5);
+    await store.setCurrent(current);
+
+    const app: any = { vault: { adapter: {
+      exists: async (path: string) => files.has(path),
+      read: async (path: string) => files.get(path),
+    } } };
+    const reloaded = new SessionStore(app, 'plugins/oocr/sessions.json');
+    await reloaded.load();
+
+    expect(reloaded.getCurrent()).toEqual(current);
+    expect(reloaded.getHistory().map(entry => entry.savedAt)).toEqual([1]);
+  });
+
+  test('should ignore a corrupt file', async () => {
+    files.set('plugins/oocr/sessions.json', '{"current": [');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await store.load();
+
+    expect(store.getCurrent()).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test('should remove a session from the history', async () => {
+    await store.archive(session(1, [[stroke(0)]]), 5);
+    await store.archive(session(2, [[stroke(0)]]), 5);
+
+    await store.removeFromHistory(store.getHistory()[0]);
+
+    expect(store.getHistory().map(entry => entry.savedAt)).toEqual([1]);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  distanceToSegment,
+  segmentsIntersect,
+  strokeIntersectsSegment,
+  strokesBounds,
+  pointInPolygon,
+  strokeInPolygon,
+  translateStroke,
+  simplifyPoints,
+  retimeStrokes,
+} from '../strokeGeometry';
+import { Stroke } from '../myScriptService';
+
+describe('strokeGeometry', () => {
+  describe('distanceToSegment', () => {
+    test('should measure perpendicular distance inside the segment', () => {
+      expect(distanceToSegment({ x: 5, y: 3 }, { x: 0, y: 0 }, { x: 10, y: 0 })).toBeCloseTo(3);
+    });
+
+    test('should measure distance to the nearest end point outside the segment', () => {
+      expect(distanceToSegment({ x: 13, y: 4 }, { x: 0, y: 0 }, { x: 10, y: 0 })).toBeCloseTo(5);
+    });
+
+    test('should handle zero-length segments', () => {
+      expect(distanceToSegment({ x: 3, y: 4 }, { x: 0, y: 0 }, { x: 0, y: 0 })).toBeCloseTo(5);
+    });
+  });
+
+  describe('segmentsIntersect', () => {
+    test('should detect crossing segments', () => {
+      expect(segmentsIntersect({ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }, { x: 10, y: 0 })).toBe(true);
+    });
+
+    test('should reject parallel segments', () => {
+      expect(segmentsIntersect({ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 5 }, { x: 10, y: 5 })).toBe(false);
+    });
+  });
+
+  describe('strokeIntersectsSegment', () => {
+    const horizontal: Stroke = {
+      points: [
+        { x: 0, y: 50, t: 0 },
+        { x: 50, y: 50, t: 10 },
+        { x: 100, y: 50, t: 20 },
+      ]
+    };
+
+    test('should hit a stroke when the eraser path crosses it between events', () => {
+      // Both eraser positions are far from the stroke, but the path crosses it
+      expect(strokeIntersectsSegment(horizontal, { x: 50, y: 0 }, { x: 50, y: 100 }, 4)).toBe(true);
+    });
+
+    test('should hit a stroke within the eraser radius', () => {
+      expect(strokeIntersectsSegment(horizontal, { x: 20, y: 55 }, { x: 20, y: 55 }, 8)).toBe(true);
+    });
+
+    test('should miss a stroke outside the eraser radius', () => {
+      expect(strokeIntersectsSegment(horizontal, { x: 20, y: 70 }, { x: 80, y: 70 }, 8)).toBe(false);
+    });
+
+    test('should hit single-point strokes (dots)', () => {
+      const dot: Stroke = { points: [{ x: 10, y: 10, t: 0 }] };
+      expect(strokeIntersectsSegment(dot, { x: 0, y: 12 }, { x: 20, y: 12 }, 4)).toBe(true);
+    });
+  });
+
+  describe('lasso selection', () => {
+    const square = [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+      { x: 0, y: 100 },
+    ];
+
+    test('should test points against a polygon', () => {
+      expect(pointInPolygon({ x: 50, y: 50 }, square)).toBe(true);
+      expect(pointInPolygon({ x: 150, y: 50 }, square)).toBe(false);
+    });
+
+    test('should select strokes mostly inside the lasso', () => {
+      const inside: Stroke = { points: [{ x: 10, y: 10, t: 0 }, { x: 90, y: 90, t: 10 }, { x: 120, y: 90, t: 20 }] };
+      const outside: Stroke = { points: [{ x: 150, y: 10, t: 0 }, { x: 90, y: 90, t: 10 }, { x: 200, y: 90, t: 20 }] };
+
+      expect(strokeInPolygon(inside, square)).toBe(true);
+      expect(strokeInPolygon(outside, square)).toBe(false);
+    });
+
+    test('should not select anything with a degenerate lasso', () => {
+      const stroke: Stroke = { points: [{ x: 10, y: 10, t: 0 }] };
+      expect(strokeInPolygon(stroke, square.slice(0, 2))).toBe(false);
+    });
+
+    test('should compute bounds and translate without mutating', () => {
+      const stroke: Stroke = { points: [{ x: 10, y: 20, t: 0, p: 0.4 }, { x: 30, y: 5, t: 10 }] };
+      const moved = translateStroke(stroke, 5, -5);
+
+      expect(strokesBounds([stroke])).toEqual({ minX: 10, minY: 5, maxX: 30, maxY: 20 });
+      expect(strokesBounds([moved])).toEqual({ minX: 15, minY: 0, maxX: 35, maxY: 15 });
+      expect(moved.points[0]).toEqual({ x: 15, y: 15, t: 0, p: 0.4 });
+      expect(stroke.points[0].x).toBe(10);
+      expect(strokesBounds([])).toBeNull();
+    });
+  });
+
+  describe('simplifyPoints', () => {
+    test('should drop collinear points and keep the ends', () => {
+      const points = [0, 1, 2, 3, 4].map(i => ({ x: i * 10, y: 0, t: i * 5 }));
+      expect(simplifyPoints(points, 1)).toEqual([points[0], points[4]]);
+    });
+
+    test('should keep corners with their original timestamps and pressure', () => {
+      const points = [
+        { x: 0, y: 0, t: 0, p: 0.2 },
+        { x: 5, y: 0.2, t: 10, p: 0.3 },
+        { x: 10, y: 0, t: 20, p: 0.9 },
+        { x: 10, y: 5, t: 30, p: 0.4 },
+        { x: 10, y: 10, t: 40, p: 0.5 },
+      ];
+      expect(simplifyPoints(points, 1)).toEqual([points[0], points[2], points[4]]);
+    });
+
+    test('should return the input unchanged when disabled', () => {
+      const points = [{ x: 0, y: 0, t: 0 }, { x: 1, y: 0, t: 1 }, { x: 2, y: 0, t: 2 }];
+      expect(simplifyPoints(points, 0)).toBe(points);
+    });
+  });
+
+  describe('retimeStrokes', () => {
+    test('should make reordered strokes follow each other in time', () => {
+      const late = { points: [{ x: 0, y: 0, t: 100 }, { x: 1, y: 0, t: 120 }] };
+      const early = { points: [{ x: 0, y: 20, t: 10 }, { x: 1, y: 20, t: 30 }] };
+
+      const [first, second] = retimeStrokes([late, early]);
+
+      expect(first).toBe(late);
+      expect(second.points.map(p => p.t)).toEqual([121, 141]);
+      expect(early.points[0].t).toBe(10);
+    });
+
+    test('should keep strokes already in time order', () => {
+      const strokes = [{ points: [{ x: 0, y: 0, t: 0 }] }, { points: [{ x: 0, y: 0, t: 50 }] }];
+      expect(retimeStrokes(strokes)).toEqual(strokes);
+      expect(retimeStrokes(strokes)[1]).toBe(strokes[1]);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { StrokeHistory } from '../strokeHistory';
+
+describe('StrokeHistory', () => {
+  let history: StrokeHistory<string>;
+
+  beforeEach(() => {
+    history = new StrokeHistory<string>();
+  });
+
+  test('should start with nothing to undo or redo', () => {
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+    expect(history.undo(['a'])).toBeNull();
+    expect(history.redo(['a'])).toBeNull();
+  });
+
+  test('should undo and redo recorded changes', () => {
+    let strokes: string[] = [];
+
+    history.record(strokes);
+    strokes = [...strokes, 'a'];
+    history.record(strokes);
+    strokes = [...strokes, 'b'];
+
+    strokes = history.undo(strokes)!;
+    expect(strokes).toEqual(['a']);
+    strokes = history.undo(strokes)!;
+    expect(strokes).toEqual([]);
+    expect(history.canUndo()).toBe(false);
+
+    strokes = history.redo(strokes)!;
+    expect(strokes).toEqual(['a']);
+    strokes = history.redo(strokes)!;
+    expect(strokes).toEqual(['a', 'b']);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  test('should drop redo history when a new change is recorded', () => {
+    let strokes = ['a'];
+    history.record(strokes);
+    strokes = ['a', 'b'];
+
+    strokes = history.undo(strokes)!;
+    expect(history.canRedo()).toBe(true);
+
+    history.record(strokes);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  test('should not be affected by later mutation of a recorded array', () => {
+    const strokes = ['a'];
+    history.record(strokes);
+    strokes.push('b');
+
+    expect(history.undo(strokes)).toEqual(['a']);
+  });
+
+  test('should respect the history limit', () => {
+    const limited = new StrokeHistory<string>(2);
+    limited.record(['1']);
+    limited.record(['2']);
+    limited.record(['3']);
+
+    expect(limited.undo(['4'])).toEqual(['3']);
+    expect(limited.undo(['3'])).toEqual(['2']);
+    expect(limited.undo(['2'])).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import { drawStrokes, pressureWidth, InkStroke, BASE_LINE_WIDTH } from '../strokeRenderer';
+
+/**
+ * Minimal 2D context that records the colour and alpha of every stroke() call
+ */
+function createRecordingContext() {
+  const calls: Array<{ color: string; alpha: number; width: number }> = [];
+  const ctx: any = {
+    strokeStyle: '',
+    fillStyle: '',
+    lineWidth: 1,
+    globalAlpha: 1,
+    globalCompositeOperation: 'source-over',
+    save: jest.fn(),
+    restore: jest.fn(),
+    beginPath: jest.fn(),
+    moveTo: jest.fn(),
+    lineTo: jest.fn(),
+    quadraticCurveTo: jest.fn(),
+    arc: jest.fn(),
+    fill: jest.fn(),
+    stroke: jest.fn(() => calls.push({ color: ctx.strokeStyle, alpha: ctx.globalAlpha, width: ctx.lineWidth })),
+  };
+  return { ctx, calls };
+}
+
+const pen: InkStroke = {
+  points: [{ x: 0, y: 0, t: 0, p: 0.5 }, { x: 10, y: 0, t: 10, p: 0.5 }],
+  style: { color: '#d32f2f', width: 4.5 },
+};
+
+const highlighter: InkStroke = {
+  points: [{ x: 0, y: 5, t: 20 }, { x: 10, y: 5, t: 30 }],
+  style: { color: '#ffe14d', width: 18, highlighter: true },
+};
+
+describe('strokeRenderer', () => {
+  test('should scale width with pressure', () => {
+    expect(pressureWidth(0.5)).toBeCloseTo(BASE_LINE_WIDTH);
+    expect(pressureWidth(1, 2)).toBeCloseTo(3);
+    // Missing pressure counts as medium
+    expect(pressureWidth(undefined)).toBeCloseTo(BASE_LINE_WIDTH);
+  });
+
+  test('should draw smooth curves through the recorded points', () => {
+    const { ctx } = createRecordingContext();
+    const curve: InkStroke = {
+      points: [0, 1, 2, 3].map(i => ({ x: i * 10, y: i % 2 ? 10 : 0, t: i * 10 })),
+    };
+    drawStrokes(ctx, [curve]);
+
+    // Inner points are curve control points; the ends are reached exactly
+    expect(ctx.quadraticCurveTo).toHaveBeenCalledWith(10, 10, 15, 5);
+    expect(ctx.quadraticCurveTo).toHaveBeenCalledWith(20, 0, 25, 5);
+    expect(ctx.moveTo).toHaveBeenCalledWith(0, 0);
+    expect(ctx.lineTo).toHaveBeenLastCalledWith(30, 10);
+  });
+
+  test('should draw with each stroke\'s own colour', () => {
+    const { ctx, calls } = createRecordingContext();
+    drawStrokes(ctx, [pen]);
+    expect(calls.every(call => call.color === '#d32f2f')).toBe(true);
+  });
+
+  test('should draw highlighter strokes first and translucent', () => {
+    const { ctx, calls } = createRecordingContext();
+    drawStrokes(ctx, [pen, highlighter]);
+
+    expect(calls[0]).toEqual({ color: '#ffe14d', alpha: expect.any(Number), width: 18 });
+    expect(calls[0].alpha).toBeLessThan(1);
+    expect(calls[calls.length - 1].color).toBe('#d32f2f');
+    expect(calls[calls.length - 1].alpha).toBe(1);
+  });
+
+  test('should draw solid black in monochrome mode', () => {
+    const { ctx, calls } = createRecordingContext();
+    drawStrokes(ctx, [pen], { monochrome: true });
+    expect(calls.every(call => call.color === '#000000' && call.alpha === 1)).toBe(true);
+  });
+});
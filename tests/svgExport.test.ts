@@ -0,0 +1,56 @@
+import { strokesToSvg } from '../svgExport';
+import { InkStroke } from '../strokeRenderer';
+
+function stroke(points: Array<[number, number]>, style?: InkStroke['style']): InkStroke {
+  return { points: points.map(([x, y], i) => ({ x, y, t: i * 16, p: 0.5 })), style };
+}
+
+function viewBox(svg: string): number[] {
+  const match = svg.match(/viewBox="([^"]+)"/);
+  return match![1].split(' ').map(Number);
+}
+
+describe('strokesToSvg', () => {
+  test('should return null without ink', () => {
+    expect(strokesToSvg([])).toBeNull();
+    expect(strokesToSvg([{ points: [] }])).toBeNull();
+  });
+
+  test('should crop to the ink bounds plus padding', () => {
+    const svg = strokesToSvg([stroke([[500, 300], [600, 340]])], { padding: 0 })!;
+
+    // A 4.5 px pen is up to 6.75 px wide at full pressure: half of that is added on each side
+    const [, , width, height] = viewBox(svg);
+    expect(width).toBe(Math.ceil(100 + 6.75));
+    expect(height).toBe(Math.ceil(40 + 6.75));
+    expect(svg).toContain('<path d="M3.4 3.4L53.4 23.4L103.4 43.4"');
+  });
+
+  test('should draw smooth curves through the midpoints', () => {
+    const svg = strokesToSvg([stroke([[0, 0], [10, 0], [20, 10]])], { padding: 0 })!;
+    expect(svg).toMatch(/d="M[\d.]+ [\d.]+L[\d.]+ [\d.]+Q[\d. ]+L[\d.]+ [\d.]+"/);
+  });
+
+  test('should keep colour and width, with highlighters first', () => {
+    const svg = strokesToSvg([
+      stroke([[0, 0], [50, 0]], { color: '#d32f2f', width: 2.5 }),
+      stroke([[0, 10], [50, 10]], { color: '#ffe14d', width: 18, highlighter: true }),
+    ])!;
+
+    const highlighter = svg.indexOf('stroke="#ffe14d" stroke-width="18" stroke-opacity="0.35"');
+    const pen = svg.indexOf('stroke="#d32f2f" stroke-width="2.5"');
+    expect(highlighter).toBeGreaterThan(-1);
+    expect(pen).toBeGreaterThan(highlighter);
+  });
+
+  test('should draw a dot for a single point', () => {
+    const svg = strokesToSvg([stroke([[5, 5]])], { padding: 0 })!;
+    expect(svg).toContain('<circle cx="3.4" cy="3.4" r="2.3" fill="#000000"/>');
+  });
+
+  test('should be a standalone SVG document', () => {
+    const svg = strokesToSvg([stroke([[0, 0], [10, 10]])])!;
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg.endsWith('</svg>')).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import { Viewport, MAX_ZOOM, MIN_ZOOM } from '../viewport';
+
+describe('Viewport', () => {
+  let viewport: Viewport;
+
+  beforeEach(() => {
+    viewport = new Viewport();
+  });
+
+  test('should map screen to world as identity by default', () => {
+    expect(viewport.screenToWorld({ x: 10, y: 20 })).toEqual({ x: 10, y: 20 });
+  });
+
+  test('should round-trip between screen and world coordinates', () => {
+    viewport.panBy(-30, -50);
+    viewport.zoomAt({ x: 100, y: 100 }, 2);
+
+    const world = viewport.screenToWorld({ x: 42, y: 17 });
+    const screen = viewport.worldToScreen(world);
+    expect(screen.x).toBeCloseTo(42);
+    expect(screen.y).toBeCloseTo(17);
+  });
+
+  test('should pan so content follows the fingers', () => {
+    viewport.panBy(0, -100);
+    // Dragging up by 100px scrolls the page down
+    expect(viewport.screenToWorld({ x: 0, y: 0 })).toEqual({ x: 0, y: 100 });
+  });
+
+  test('should keep the point under the pinch fixed while zooming', () => {
+    const anchor = { x: 200, y: 150 };
+    const before = viewport.screenToWorld(anchor);
+    viewport.zoomAt(anchor, 1.5);
+    const after = viewport.screenToWorld(anchor);
+
+    expect(viewport.scale).toBeCloseTo(1.5);
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+  });
+
+  test('should limit the zoom range', () => {
+    viewport.zoomAt({ x: 0, y: 0 }, 100);
+    expect(viewport.scale).toBe(MAX_ZOOM);
+    viewport.zoomAt({ x: 0, y: 0 }, 0.0001);
+    expect(viewport.scale).toBe(MIN_ZOOM);
+  });
+
+  test('should clamp the view inside the page', () => {
+    viewport.panBy(50, 50);
+    viewport.clamp(400, 1000, 400, 300);
+    expect(viewport.offsetX).toBe(0);
+    expect(viewport.offsetY).toBe(0);
+
+    viewport.panBy(0, -5000);
+    viewport.clamp(400, 1000, 400, 300);
+    expect(viewport.offsetY).toBe(700);
+  });
+});
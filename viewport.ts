@@ -0,0 +1,65 @@
+import { Point } from './strokeGeometry';
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 4;
+
+/**
+ * Pan/zoom state of the handwriting canvas
+ *
+ * Strokes are stored in world coordinates (logical pixels of the page at
+ * 100% zoom). The viewport maps them to the visible screen area:
+ *   screen = (world - offset) * scale
+ */
+export class Viewport {
+  offsetX = 0;
+  offsetY = 0;
+  scale = 1;
+
+  screenToWorld(p: Point): Point {
+    return {
+      x: p.x / this.scale + this.offsetX,
+      y: p.y / this.scale + this.offsetY,
+    };
+  }
+
+  worldToScreen(p: Point): Point {
+    return {
+      x: (p.x - this.offsetX) * this.scale,
+      y: (p.y - this.offsetY) * this.scale,
+    };
+  }
+
+  /**
+   * Move the view by a distance in screen pixels (content follows the fingers)
+   */
+  panBy(dx: number, dy: number): void {
+    this.offsetX -= dx / this.scale;
+    this.offsetY -= dy / this.scale;
+  }
+
+  /**
+   * Zoom by a factor, keeping the world point under the given screen point fixed
+   */
+  zoomAt(screenPoint: Point, factor: number): void {
+    const anchor = this.screenToWorld(screenPoint);
+    this.scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, this.scale * factor));
+    this.offsetX = anchor.x - screenPoint.x / this.scale;
+    this.offsetY = anchor.y - screenPoint.y / this.scale;
+  }
+
+  /**
+   * Keep the view inside the page (world origin is the page's top-left corner)
+   */
+  clamp(pageWidth: number, pageHeight: number, viewWidth: number, viewHeight: number): void {
+    const maxX = Math.max(0, pageWidth - viewWidth / this.scale);
+    const maxY = Math.max(0, pageHeight - viewHeight / this.scale);
+    this.offsetX = Math.min(maxX, Math.max(0, this.offsetX));
+    this.offsetY = Math.min(maxY, Math.max(0, this.offsetY));
+  }
+
+  reset(): void {
+    this.offsetX = 0;
+    this.offsetY = 0;
+    this.scale = 1;
+  }
+}